@@ -0,0 +1,397 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  CACHE_TTL_MS,
+  FALLBACK_BODY,
+  MAST_URL,
+  RANGE_CONCURRENCY,
+  RANGE_DAY_LIMIT,
+  createJwstProxy,
+  streamObservations,
+} from "./proxy.js";
+import { memoryStorage, type ProxyStorage } from "./storage.js";
+
+// ── Fake MAST ─────────────────────────────────────────────────────────────────
+
+const T0 = Date.parse("2026-10-19T12:00:00Z");
+
+function row(name: string, dateObs = "2026-10-19T11:00:00Z") {
+  return {
+    targprop: name,
+    targ_ra: 10,
+    targ_dec: 20,
+    instrume: "NIRCam",
+    opticalElements: "F200W",
+    targtype: "galaxy",
+    exp_type: "NRC_IMAGE",
+    date_obs: dateObs,
+    fileSetName: `jw-${name}`,
+  };
+}
+
+const mastBody = (rows: object[]) => JSON.stringify({ results: rows });
+
+type Answer = Response | Error | Promise<Response>;
+
+// A fetch that answers each MAST query with the next of `answers` (the last
+// one repeats), recording the request bodies
+function fakeMast(...answers: Answer[]) {
+  const queries: { limit: number; conditions?: unknown }[] = [];
+  const fetch = vi.fn(
+    async (url: string | URL | Request, init?: RequestInit) => {
+      expect(String(url)).toBe(MAST_URL);
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+      queries.push(JSON.parse(String(init?.body)));
+      const answer = answers[Math.min(queries.length - 1, answers.length - 1)];
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+  );
+  return { fetch: fetch as unknown as typeof globalThis.fetch, queries };
+}
+
+// A fetch for window queries that answers each day's query by the day's
+// start, whatever order they arrive in
+function mastByDay(answer: (dayStart: string) => Answer) {
+  const queries: { limit: number; conditions?: unknown }[] = [];
+  const fetch = vi.fn(
+    async (_url: string | URL | Request, init?: RequestInit) => {
+      const query = JSON.parse(String(init?.body));
+      queries.push(query);
+      const result = answer(query.conditions[0].date_obs.min);
+      if (result instanceof Error) throw result;
+      return result;
+    },
+  );
+  return { fetch: fetch as unknown as typeof globalThis.fetch, queries };
+}
+
+function setup(mast: ReturnType<typeof fakeMast>, storage = memoryStorage()) {
+  let time = T0;
+  const proxy = createJwstProxy({
+    fetch: mast.fetch,
+    now: () => time,
+    storage,
+    log: () => {},
+  });
+  return {
+    proxy,
+    storage,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+async function seedLatest(storage: ProxyStorage, body: string, time: number) {
+  await storage.setResponse("latest", { body, time });
+}
+
+// ── Latest ────────────────────────────────────────────────────────────────────
+
+describe("latest", () => {
+  it("serves a fresh cache entry as a HIT without asking MAST", async () => {
+    const mast = fakeMast(new Error("not called"));
+    const { proxy, storage } = setup(mast);
+    await seedLatest(storage, mastBody([row("M31")]), T0 - 60_000);
+
+    const res = await proxy("GET", "/api/jwst");
+    expect(res.status).toBe(200);
+    expect(res.headers["X-Cache"]).toBe("HIT");
+    expect(res.headers["X-Fetched-At"]).toBe(
+      new Date(T0 - 60_000).toISOString(),
+    );
+    expect(JSON.parse(res.body).results[0].targprop).toBe("M31");
+    expect(mast.fetch).not.toHaveBeenCalled();
+  });
+
+  it("fetches on a MISS, caches the body and appends new rows to history", async () => {
+    const mast = fakeMast(
+      new Response(mastBody([row("M31")])),
+      new Response(mastBody([row("M33"), row("M31")])),
+    );
+    const { proxy, storage, advance } = setup(mast);
+
+    const first = await proxy("GET", "/api/jwst");
+    expect(first.headers["X-Cache"]).toBe("MISS");
+    expect(first.headers["X-Fetched-At"]).toBe(new Date(T0).toISOString());
+    expect((await storage.getResponse("latest"))?.body).toBe(first.body);
+
+    advance(CACHE_TTL_MS);
+    const second = await proxy("GET", "/api/jwst");
+    expect(second.headers["X-Cache"]).toBe("MISS");
+    expect(mast.fetch).toHaveBeenCalledTimes(2);
+
+    const history = await storage.readHistory(0, 10);
+    expect(history.map((e) => [e.key, e.recordedAt])).toEqual([
+      ["jw-M31", T0],
+      ["jw-M33", T0 + CACHE_TTL_MS],
+    ]);
+  });
+
+  it("serves the stored entry as STALE when MAST answers 5xx", async () => {
+    const mast = fakeMast(new Response("overloaded", { status: 503 }));
+    const { proxy, storage } = setup(mast);
+    await seedLatest(storage, mastBody([row("M31")]), T0 - 2 * CACHE_TTL_MS);
+
+    const res = await proxy("GET", "/api/jwst");
+    expect(res.status).toBe(200);
+    expect(res.headers["X-Cache"]).toBe("STALE");
+    expect(res.headers["X-Fetched-At"]).toBe(
+      new Date(T0 - 2 * CACHE_TTL_MS).toISOString(),
+    );
+    expect(JSON.parse(res.body).results[0].targprop).toBe("M31");
+  });
+
+  it("serves the stored entry as STALE when MAST times out", async () => {
+    const mast = fakeMast(
+      new DOMException("The operation timed out.", "TimeoutError"),
+    );
+    const { proxy, storage } = setup(mast);
+    await seedLatest(storage, mastBody([row("M31")]), T0 - 2 * CACHE_TTL_MS);
+
+    const res = await proxy("GET", "/api/jwst");
+    expect(res.headers["X-Cache"]).toBe("STALE");
+    expect(JSON.parse(res.body).results[0].targprop).toBe("M31");
+  });
+
+  it("falls back to the bundled row when MAST fails and nothing is stored", async () => {
+    const mast = fakeMast(new Error("ECONNRESET"));
+    const { proxy } = setup(mast);
+
+    const res = await proxy("GET", "/api/jwst");
+    expect(res.status).toBe(200);
+    expect(res.headers["X-Cache"]).toBe("FALLBACK");
+    expect(res.headers["X-Fetched-At"]).toBeUndefined();
+    expect(res.body).toBe(FALLBACK_BODY);
+  });
+
+  it("shares one MAST query between concurrent requests", async () => {
+    let answer!: (res: Response) => void;
+    const mast = fakeMast(new Promise<Response>((r) => (answer = r)));
+    const { proxy } = setup(mast);
+
+    const pending = [
+      proxy("GET", "/api/jwst"),
+      proxy("GET", "/api/v2/observations"),
+      proxy("GET", "/api/jwst"),
+    ];
+    await vi.waitFor(() => expect(mast.fetch).toHaveBeenCalled());
+    answer(new Response(mastBody([row("M31")])));
+    const [a, b, c] = await Promise.all(pending);
+
+    expect(mast.fetch).toHaveBeenCalledTimes(1);
+    expect([a, b, c].map((r) => r.headers["X-Cache"])).toEqual([
+      "MISS",
+      "MISS",
+      "MISS",
+    ]);
+    expect(JSON.parse(b.body).observations[0].targetName).toBe("M31");
+  });
+
+  it("keys history entries the way v2 ids the same rows", async () => {
+    const { fileSetName: _, ...unnamed } = row("M31");
+    const mast = fakeMast(
+      new Response(mastBody([{ ...unnamed, expstart: 61_000.5 }])),
+    );
+    const { proxy, storage } = setup(mast);
+
+    const res = await proxy("GET", "/api/v2/observations");
+    const [entry] = await storage.readHistory(0, 10);
+    expect(entry.key).toBe(JSON.parse(res.body).observations[0].id);
+    expect(entry.key).toContain("2025-11-21T12:00:00.000Z");
+  });
+
+  it("drops rows without usable coordinates from the v2 answer", async () => {
+    const mast = fakeMast(
+      new Response(
+        mastBody([{ ...row("Garbled"), targ_ra: "n/a" }, row("M31")]),
+      ),
+    );
+    const { proxy } = setup(mast);
+
+    const res = await proxy("GET", "/api/v2/observations");
+    expect(res.status).toBe(200);
+    const { observations } = JSON.parse(res.body);
+    expect(observations.map((o: { targetName: string }) => o.targetName)).toEqual(
+      ["M31"],
+    );
+  });
+});
+
+// ── Range ─────────────────────────────────────────────────────────────────────
+
+describe("range", () => {
+  const TWO_DAYS =
+    "/api/jwst?from=2026-10-01T00:00:00.000Z&to=2026-10-03T00:00:00.000Z";
+
+  it("asks MAST one day at a time and caches the answer (MISS, then HIT)", async () => {
+    const mast = fakeMast(
+      new Response(mastBody([row("M31", "2026-10-01T05:00:00Z")])),
+      new Response(mastBody([row("M33", "2026-10-02T05:00:00Z")])),
+    );
+    const { proxy } = setup(mast);
+
+    const miss = await proxy("GET", TWO_DAYS);
+    expect(miss.status).toBe(200);
+    expect(miss.headers["X-Cache"]).toBe("MISS");
+    expect(mast.queries.map((q) => q.conditions)).toEqual([
+      [
+        {
+          date_obs: {
+            min: "2026-10-01T00:00:00.000Z",
+            max: "2026-10-02T00:00:00.000Z",
+          },
+        },
+      ],
+      [
+        {
+          date_obs: {
+            min: "2026-10-02T00:00:00.000Z",
+            max: "2026-10-03T00:00:00.000Z",
+          },
+        },
+      ],
+    ]);
+    const body = JSON.parse(miss.body);
+    expect(body.truncated).toBe(false);
+    expect(body.results.map((r: { targprop: string }) => r.targprop)).toEqual([
+      "M31",
+      "M33",
+    ]);
+
+    const hit = await proxy("GET", TWO_DAYS);
+    expect(hit.headers["X-Cache"]).toBe("HIT");
+    expect(hit.body).toBe(miss.body);
+    expect(mast.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("marks the answer truncated when a day fills the row limit", async () => {
+    const busy = Array.from({ length: RANGE_DAY_LIMIT }, (_, i) =>
+      row(`T${i}`, "2026-10-01T05:00:00Z"),
+    );
+    const mast = fakeMast(
+      new Response(mastBody(busy)),
+      new Response(mastBody([])),
+    );
+    const { proxy } = setup(mast);
+
+    const res = await proxy(
+      "GET",
+      TWO_DAYS.replace("/api/jwst", "/api/v2/observations"),
+    );
+    const body = JSON.parse(res.body);
+    expect(body.truncated).toBe(true);
+    expect(body.observations).toHaveLength(RANGE_DAY_LIMIT);
+  });
+
+  it("serves stored days as STALE when MAST fails", async () => {
+    const mast = fakeMast(
+      new Response(mastBody([row("M31", "2026-10-01T05:00:00Z")])),
+      new Response(mastBody([])),
+      new Response("overloaded", { status: 503 }),
+    );
+    const { proxy, advance } = setup(mast);
+    const fresh = await proxy("GET", TWO_DAYS);
+
+    advance(2 * 60 * 60 * 1000);
+    const stale = await proxy("GET", TWO_DAYS);
+    expect(stale.status).toBe(200);
+    expect(stale.headers["X-Cache"]).toBe("STALE");
+    expect(stale.headers["X-Fetched-At"]).toBe(new Date(T0).toISOString());
+    expect(stale.body).toBe(fresh.body);
+  });
+
+  it("answers 502 when MAST fails and no day is stored", async () => {
+    const mast = fakeMast(new Response("overloaded", { status: 503 }));
+    const { proxy } = setup(mast);
+
+    const res = await proxy("GET", TWO_DAYS);
+    expect(res.status).toBe(502);
+    expect(JSON.parse(res.body).error).toBe("MAST unavailable");
+  });
+
+  it("asks MAST for a bounded number of days and answers with those it has", async () => {
+    const start = Date.parse("2026-10-01T00:00:00Z");
+    const dayCount = RANGE_CONCURRENCY + 2;
+    const failing = new Date(start + 2 * 86_400_000).toISOString();
+    const mast = mastByDay((day) =>
+      day === failing
+        ? new Response("overloaded", { status: 503 })
+        : new Response(mastBody([row(day, day)])),
+    );
+    const { proxy } = setup(mast);
+    const window = `/api/v2/observations?from=${new Date(start).toISOString()}&to=${new Date(start + dayCount * 86_400_000).toISOString()}`;
+
+    const first = await proxy("GET", window);
+    expect(first.status).toBe(200);
+    expect(first.headers["Cache-Control"]).toBe("public, max-age=300");
+    expect(mast.fetch).toHaveBeenCalledTimes(RANGE_CONCURRENCY);
+    const partial = JSON.parse(first.body);
+    expect(partial.truncated).toBe(true);
+    expect(partial.observations).toHaveLength(RANGE_CONCURRENCY - 1);
+    expect(
+      partial.observations.map((o: { targetName: string }) => o.targetName),
+    ).not.toContain(failing);
+
+    // Asking again only queries the days still missing
+    const second = await proxy("GET", window);
+    expect(mast.queries).toHaveLength(RANGE_CONCURRENCY + 3);
+    const filled = JSON.parse(second.body);
+    expect(filled.truncated).toBe(true);
+    expect(filled.observations).toHaveLength(dayCount - 1);
+  });
+
+  it.each([
+    ["unparseable dates", "from=yesterday&to=today"],
+    ["a missing end", "from=2026-10-01"],
+    ["an end before the start", "from=2026-10-03&to=2026-10-01"],
+    ["a window over the limit", "from=2026-01-01&to=2026-03-01"],
+  ])("rejects %s with a 400", async (_, query) => {
+    const mast = fakeMast(new Error("not called"));
+    const { proxy } = setup(mast);
+
+    const res = await proxy("GET", `/api/v2/observations?${query}`);
+    expect(res.status).toBe(400);
+    expect(mast.fetch).not.toHaveBeenCalled();
+  });
+});
+
+// ── Event stream ──────────────────────────────────────────────────────────────
+
+describe("streamObservations", () => {
+  async function stream(lastEventId?: string) {
+    const mast = fakeMast(new Response(mastBody([row("M31")])));
+    const { proxy } = setup(mast);
+    const chunks: string[] = [];
+    let time = 0;
+    await streamObservations(
+      proxy,
+      (chunk) => chunks.push(chunk),
+      new AbortController().signal,
+      {
+        pollMs: 10,
+        maxMs: 20,
+        now: () => time,
+        sleep: async (ms) => {
+          time += ms;
+        },
+        lastEventId,
+      },
+    );
+    return chunks;
+  }
+
+  it("sends the observations once, with an id", async () => {
+    const [retry, event, quiet] = await stream();
+    expect(retry).toMatch(/^retry: \d+\n\n$/);
+    expect(event).toMatch(/^id: \S+\nevent: observations\ndata: \{/);
+    expect(quiet).toBe(": no change\n\n");
+  });
+
+  it("skips the observations a reconnecting client already has", async () => {
+    const id = /^id: (\S+)/.exec((await stream())[1])![1];
+    const chunks = await stream(id);
+    expect(chunks.some((c) => c.includes("event: observations"))).toBe(false);
+    expect(chunks[1]).toMatch(/^event: status\ndata: \{"fetchedAt":/);
+  });
+});
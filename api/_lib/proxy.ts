@@ -0,0 +1,659 @@
+// The MAST proxy itself — one copy, shared by the Vercel functions (api/jwst.ts,
+// api/jwst/history.ts) and the Vite dev middleware (vite.config.ts). It knows
+// nothing about either: requests come in as method + URL, responses go out as
+// status + headers + body, and MAST, the clock and storage are passed in.
+//
+// Routes:
+//   GET /api/jwst                  latest MAST rows   X-Cache HIT/MISS/STALE/FALLBACK
+//   GET /api/jwst?from=ISO&to=ISO  date_obs window    X-Cache HIT/MISS/STALE, or 502
+//   GET /api/jwst/history?since=   stored history     (see storage.ts)
+//   GET /api/v2/observations       either of the first two, normalised
+//                                  (src/data/ObservationSchema.ts)
+//   GET /api/v2/observations/stream  latest, normalised, as server-sent events
+//                                  (streamObservations below)
+//
+// X-Fetched-At carries when the body came from MAST (absent for FALLBACK).
+// A window's body also says whether it's `truncated` (see RANGE_DAY_LIMIT).
+//
+// The latest-observations cache state machine:
+//   fresh entry (< TTL)          → HIT, no upstream call
+//   MAST answers 2xx             → MISS, stored + new rows appended to history
+//   MAST fails, entry stored     → STALE, whatever age
+//   MAST fails, nothing stored   → FALLBACK, the bundled SMACS 0723 row
+
+import { createHash } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import {
+  createStorage,
+  historyKey,
+  historyResponse,
+  newHistoryEntries,
+  type CachedResponse,
+  type ProxyStorage,
+} from "./storage.js";
+import {
+  isScienceRow,
+  latestObservations,
+  observationKey,
+  rowToObservation,
+  type MastRow,
+  type ObservationData,
+} from "../../src/data/MastRows.js";
+import {
+  OBSERVATIONS_SCHEMA,
+  toObservationV2,
+  type ObservationsV2Response,
+} from "../../src/data/ObservationSchema.js";
+
+export const MAST_URL = "https://mast.stsci.edu/search/jwst/api/v0.1/search";
+export const CACHE_TTL_MS = 5 * 60 * 1000;
+// MAST takes ~90 s; Vercel allows the function 120 s (vercel.json)
+export const UPSTREAM_TIMEOUT_MS = 100_000;
+
+const SELECT_COLS = [
+  "targprop",
+  "targ_ra",
+  "targ_dec",
+  "instrume",
+  "opticalElements",
+  "targtype",
+  "exp_type",
+  "grating",
+  "date_obs",
+  "fileSetName",
+  "program",
+  "pi_name",
+  "expstart",
+  "effexptm",
+  "template",
+];
+
+// Time-machine queries: ?from=&to= (ISO dates) select a date_obs window,
+// oldest first. MAST is asked for it one UTC day at a time, so a busy day
+// can't use up a single row limit and leave the rest of a week or month out;
+// back-to-back rows of one setup are collapsed, and a day that still fills
+// RANGE_DAY_LIMIT marks the whole answer truncated, as does a day left out
+// (see range below). Archive days don't change, so each is cached for longer.
+export const RANGE_DAY_LIMIT = 500;
+export const RANGE_MAX_DAYS = 31;
+// MAST day queries per request, sent together: one round, UPSTREAM_TIMEOUT_MS
+// at worst, is all a request has time for
+export const RANGE_CONCURRENCY = 8;
+const RANGE_CACHE_TTL_MS = 60 * 60 * 1000;
+// Kept past the TTL as a stale fallback; stores that can expire keys drop
+// them after this, so arbitrary windows don't pile up
+const RANGE_STORE_SECONDS = 24 * 60 * 60;
+
+const LATEST_KEY = "latest";
+const DAY_MS = 86_400_000;
+
+export const FALLBACK_BODY = JSON.stringify({
+  results: [
+    {
+      targprop: "SMACS 0723",
+      targ_ra: 110.84,
+      targ_dec: -73.45,
+      instrume: "NIRCam",
+      opticalElements: "F277W",
+      targtype: "galaxy cluster",
+      exp_type: "SCIENCE",
+      date_obs: "2022-07-12",
+    },
+  ],
+});
+
+export interface ProxyResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface ProxyOptions {
+  fetch?: typeof fetch;
+  now?: () => number; // ms epoch
+  storage?: ProxyStorage;
+  batchSize?: number; // rows per latest poll (default MAST_BATCH_SIZE, 25)
+  log?: (message: string, err: unknown) => void;
+}
+
+export type JwstProxy = (method: string, url: string) => Promise<ProxyResponse>;
+
+// One day of a window: its rows, oldest first, and where they came from
+interface RangeDay {
+  rows: MastRow[];
+  xCache: string;
+  time: number;
+}
+
+// ── Requests ──────────────────────────────────────────────────────────────────
+
+function latestBody(batchSize: number): string {
+  return JSON.stringify({
+    limit: batchSize,
+    sort_by: ["date_obs"],
+    sort_desc: [true],
+    select_cols: SELECT_COLS,
+    skip_count: true,
+  });
+}
+
+function rangeBody(range: { from: string; to: string }): string {
+  return JSON.stringify({
+    limit: RANGE_DAY_LIMIT,
+    sort_by: ["date_obs"],
+    sort_desc: [false],
+    select_cols: SELECT_COLS,
+    conditions: [{ date_obs: { min: range.from, max: range.to } }],
+    skip_count: true,
+  });
+}
+
+function parseRange(
+  params: URLSearchParams,
+): { from: string; to: string } | "invalid" | null {
+  const from = params.get("from");
+  const to = params.get("to");
+  if (!from && !to) return null;
+  const fromMs = Date.parse(from ?? "");
+  const toMs = Date.parse(to ?? "");
+  if (!Number.isFinite(fromMs) || !Number.isFinite(toMs)) return "invalid";
+  if (toMs <= fromMs || toMs - fromMs > RANGE_MAX_DAYS * DAY_MS) {
+    return "invalid";
+  }
+  return {
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+  };
+}
+
+// A MAST body's rows; null when it isn't JSON
+function rowsOf(body: string): MastRow[] | null {
+  try {
+    const results = JSON.parse(body).results;
+    return Array.isArray(results) ? results : [];
+  } catch {
+    return null;
+  }
+}
+
+// The window cut at UTC midnights
+function rangeDays(range: {
+  from: string;
+  to: string;
+}): { from: string; to: string }[] {
+  const days: { from: string; to: string }[] = [];
+  const end = Date.parse(range.to);
+  for (let start = Date.parse(range.from); start < end;) {
+    const next = Math.min(end, (Math.floor(start / DAY_MS) + 1) * DAY_MS);
+    days.push({
+      from: new Date(start).toISOString(),
+      to: new Date(next).toISOString(),
+    });
+    start = next;
+  }
+  return days;
+}
+
+// Repeats of the previous row's target, instrument and filters dropped —
+// a replay can't tell them apart
+function collapseRepeats(rows: MastRow[]): MastRow[] {
+  return rows.filter(
+    (row, i) =>
+      i === 0 ||
+      row.targprop !== rows[i - 1].targprop ||
+      row.instrume !== rows[i - 1].instrume ||
+      row.opticalElements !== rows[i - 1].opticalElements,
+  );
+}
+
+// Coordinates the v2 schema accepts. NaN (a garbled targ_ra or targ_dec)
+// fails both comparisons.
+function onSky(obs: ObservationData): boolean {
+  return obs.ra >= 0 && obs.ra <= 360 && obs.dec >= -90 && obs.dec <= 90;
+}
+
+// `fn` over `items`, at most `limit` at a time, results in order
+async function mapLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return out;
+}
+
+function envBatchSize(): number {
+  return Math.max(1, Math.min(100, Number(process.env.MAST_BATCH_SIZE) || 25));
+}
+
+// ── Core ──────────────────────────────────────────────────────────────────────
+
+export function createJwstProxy(options: ProxyOptions = {}): JwstProxy {
+  const fetchImpl = options.fetch ?? fetch;
+  const now = options.now ?? Date.now;
+  const storage = options.storage ?? createStorage();
+  const log = options.log ?? ((message, err) => console.warn(message, err));
+  const mastBody = latestBody(options.batchSize ?? envBatchSize());
+
+  const respond = (
+    status: number,
+    body: string,
+    headers: Record<string, string> = {},
+  ): ProxyResponse => ({
+    status,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body,
+  });
+  const error = (status: number, message: string) =>
+    respond(status, JSON.stringify({ error: message }));
+  const cache = (
+    xCache: string,
+    maxAge: number,
+    fetchedAt: number | null,
+  ): Record<string, string> => ({
+    "X-Cache": xCache,
+    "Cache-Control": `public, max-age=${maxAge}`,
+    ...(fetchedAt !== null
+      ? { "X-Fetched-At": new Date(fetchedAt).toISOString() }
+      : {}),
+  });
+
+  // Storage is best-effort: an outage costs the cache, never the response
+  async function readCached(key: string): Promise<CachedResponse | null> {
+    try {
+      return await storage.getResponse(key);
+    } catch (err) {
+      log(`jwst: ${storage.kind} read failed`, err);
+      return null;
+    }
+  }
+
+  async function writeCached(
+    key: string,
+    body: string,
+    expireSeconds?: number,
+  ): Promise<void> {
+    try {
+      await storage.setResponse(key, { body, time: now() }, expireSeconds);
+    } catch (err) {
+      log(`jwst: ${storage.kind} write failed`, err);
+    }
+  }
+
+  async function recordHistory(
+    body: string,
+    previous: string | null,
+  ): Promise<void> {
+    try {
+      await storage.appendHistory(newHistoryEntries(body, previous, now()));
+    } catch (err) {
+      log(`jwst: ${storage.kind} history append failed`, err);
+    }
+  }
+
+  // MAST's body on a 2xx, null on anything else (error status, timeout,
+  // network failure)
+  async function queryMast(body: string): Promise<string | null> {
+    try {
+      const upstream = await fetchImpl(MAST_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body,
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      });
+      const text = await upstream.text();
+      if (upstream.ok) return text;
+      log(`jwst: MAST answered HTTP ${upstream.status}`, text.slice(0, 200));
+    } catch (err) {
+      log("jwst: MAST request failed", err);
+    }
+    return null;
+  }
+
+  async function latest(): Promise<ProxyResponse> {
+    const cached = await readCached(LATEST_KEY);
+    if (cached && now() - cached.time < CACHE_TTL_MS) {
+      return respond(200, cached.body, cache("HIT", 300, cached.time));
+    }
+    const body = await queryMast(mastBody);
+    if (body !== null) {
+      await Promise.all([
+        writeCached(LATEST_KEY, body),
+        recordHistory(body, cached?.body ?? null),
+      ]);
+      return respond(200, body, cache("MISS", 300, now()));
+    }
+    if (cached) {
+      return respond(200, cached.body, cache("STALE", 300, cached.time));
+    }
+    return respond(200, FALLBACK_BODY, cache("FALLBACK", 60, null));
+  }
+
+  // Concurrent requests for a stale cache (several event streams, a poll
+  // landing mid-refresh) share one MAST query
+  let latestInFlight: Promise<ProxyResponse> | null = null;
+  function sharedLatest(): Promise<ProxyResponse> {
+    latestInFlight ??= latest().finally(() => {
+      latestInFlight = null;
+    });
+    return latestInFlight;
+  }
+
+  // One day of a window asked of MAST and stored; null when MAST failed
+  async function fetchRangeDay(
+    key: string,
+    day: { from: string; to: string },
+  ): Promise<RangeDay | null> {
+    const body = await queryMast(rangeBody(day));
+    const rows = body === null ? null : rowsOf(body);
+    if (rows) {
+      const time = now();
+      await writeCached(key, body!, RANGE_STORE_SECONDS);
+      return { rows, xCache: "MISS", time };
+    }
+    if (body !== null) log("jwst: MAST body isn't JSON", body.slice(0, 200));
+    return null;
+  }
+
+  // Each day of a window from the cache when fresh; otherwise from MAST, but
+  // only RANGE_CONCURRENCY days of them, in one round, so the request fits
+  // the function's time limit. A day left over or that MAST failed falls back
+  // to its stale entry, or is left out and the answer marked truncated — the
+  // days that were fetched are cached, so asking again fills in the rest.
+  // 502 only when no day could be answered at all.
+  async function range(r: {
+    from: string;
+    to: string;
+  }): Promise<ProxyResponse> {
+    const days = rangeDays(r).map((day) => ({
+      day,
+      key: `range:${day.from}|${day.to}`,
+    }));
+    const stored = await mapLimit(days, RANGE_CONCURRENCY, ({ key }) =>
+      readCached(key),
+    );
+    const isFresh = (i: number) =>
+      stored[i] !== null && now() - stored[i]!.time < RANGE_CACHE_TTL_MS;
+    const toFetch = new Set(
+      days
+        .map((_, i) => i)
+        .filter((i) => !isFresh(i))
+        .slice(0, RANGE_CONCURRENCY),
+    );
+    const answers = await Promise.all(
+      days.map(async ({ day, key }, i): Promise<RangeDay | null> => {
+        const entry = stored[i];
+        const fromStore = (xCache: string) =>
+          entry && { rows: rowsOf(entry.body) ?? [], xCache, time: entry.time };
+        if (isFresh(i)) return fromStore("HIT");
+        const fetched = toFetch.has(i) ? await fetchRangeDay(key, day) : null;
+        return fetched ?? fromStore("STALE");
+      }),
+    );
+    const answered = answers.filter((d) => d !== null);
+    if (answered.length === 0) return error(502, "MAST unavailable");
+
+    // Days share their midnight, so a row can turn up twice
+    const seen = new Set<string>();
+    const rows = answered
+      .flatMap((d) => d.rows)
+      .filter((row) => {
+        const key = historyKey(row);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    const partial = answered.length < answers.length;
+    const truncated =
+      partial || answered.some((d) => d.rows.length >= RANGE_DAY_LIMIT);
+    // The worst X-Cache of the lot and the oldest fetch time; an answer
+    // with days missing or stale is only cached briefly
+    const xCache = ["STALE", "MISS", "HIT"].find((c) =>
+      answered.some((d) => d.xCache === c),
+    )!;
+    const fetchedAt = Math.min(...answered.map((d) => d.time));
+    return respond(
+      200,
+      JSON.stringify({ results: collapseRepeats(rows), truncated }),
+      cache(xCache, xCache === "STALE" || partial ? 300 : 3600, fetchedAt),
+    );
+  }
+
+  async function history(url: string): Promise<ProxyResponse> {
+    try {
+      const { status, body } = await historyResponse(storage, url);
+      return respond(status, body, { "Cache-Control": "public, max-age=60" });
+    } catch (err) {
+      log(`jwst/history: ${storage.kind} read failed`, err);
+      return error(503, "History unavailable");
+    }
+  }
+
+  // The v1 body, normalised: science rows only (all of them for a window;
+  // at least one for latest), keyword columns cleaned, moving targets placed.
+  // Rows without usable coordinates are dropped here — one would otherwise
+  // fail the client's validation of the whole answer.
+  function observationsV2(v1: ProxyResponse, isRange: boolean): ProxyResponse {
+    let rows: MastRow[];
+    let truncated: boolean;
+    try {
+      const { results, truncated: cut } = JSON.parse(v1.body);
+      rows = Array.isArray(results) ? results : [];
+      truncated = isRange && cut === true;
+    } catch (err) {
+      log("jwst: MAST body isn't JSON", err);
+      return error(502, "MAST returned malformed data");
+    }
+    const normalised = isRange
+      ? rows.filter(isScienceRow).map(rowToObservation)
+      : latestObservations(rows);
+    const observations = normalised.filter(onSky);
+    if (observations.length < normalised.length) {
+      log(
+        "jwst: dropped rows without usable coordinates",
+        normalised.length - observations.length,
+      );
+    }
+    const fetchedAt = v1.headers["X-Fetched-At"] ?? null;
+    const response: ObservationsV2Response = {
+      schema: OBSERVATIONS_SCHEMA,
+      fetchedAt,
+      cache: v1.headers["X-Cache"],
+      truncated,
+      observations: observations.map((o) =>
+        toObservationV2(o, observationKey(o)),
+      ),
+    };
+    return respond(200, JSON.stringify(response), v1.headers);
+  }
+
+  return async (method, url) => {
+    if (method !== "GET") return error(405, "Method not allowed");
+    const parsed = new URL(url, "http://localhost");
+    const path = parsed.pathname.replace(/\/$/, "");
+    if (path === "/api/jwst/history") return history(url);
+    if (path !== "/api/jwst" && path !== "/api/v2/observations") {
+      return error(404, "Not found");
+    }
+
+    const r = parseRange(parsed.searchParams);
+    if (r === "invalid") {
+      return error(
+        400,
+        `from/to must be ISO dates at most ${RANGE_MAX_DAYS} days apart`,
+      );
+    }
+    const v1 = r ? await range(r) : await sharedLatest();
+    if (path === "/api/jwst" || v1.status !== 200) return v1;
+    return observationsV2(v1, r !== null);
+  };
+}
+
+// ── Event stream ──────────────────────────────────────────────────────────────
+// Rather than clients polling, one loop per connection re-reads the latest
+// v2 observations through the proxy — a cache HIT almost every time; a MISS
+// when the TTL has run out, which refreshes the cache for everyone — and
+// pushes them only when they've changed. Each event's id is a hash of its
+// observations; EventSource sends the last one back as Last-Event-ID when it
+// reconnects, so a client that already has them isn't sent them again.
+
+export const STREAM_POLL_MS = 15_000;
+// EventSource reconnect delay, sent to the client as the stream's retry:
+export const STREAM_RETRY_MS = 5_000;
+
+export interface StreamOptions {
+  pollMs?: number;
+  maxMs?: number; // start no poll after this (serverless time limits)
+  lastEventId?: string; // the client's Last-Event-ID, on a reconnect
+  now?: () => number;
+  sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+}
+
+function abortableSleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+}
+
+// What counts as a change: the observations, not when or how they were
+// served — a new fetchedAt goes out on its own as a status event
+function splitBody(body: string): {
+  observations: string;
+  fetchedAt: string | null;
+  status: string;
+} {
+  try {
+    const { observations, fetchedAt, cache } = JSON.parse(body);
+    return {
+      observations: JSON.stringify(observations),
+      fetchedAt,
+      status: JSON.stringify({ fetchedAt, cache }),
+    };
+  } catch {
+    return { observations: body, fetchedAt: null, status: "" };
+  }
+}
+
+function eventId(observations: string): string {
+  return createHash("sha256").update(observations).digest("base64url");
+}
+
+// Writes server-sent events until `signal` aborts or maxMs passes:
+//   event: observations   the v2 body, on connect (unless lastEventId says
+//                         the client has it) and on every change
+//   event: status         { fetchedAt, cache } when only fetchedAt changed,
+//                         so the client knows an unchanged feed is fresh
+//   : no change           a comment each quiet poll, so nothing in between
+//                         times the connection out
+export async function streamObservations(
+  proxy: JwstProxy,
+  write: (chunk: string) => void,
+  signal: AbortSignal,
+  options: StreamOptions = {},
+): Promise<void> {
+  const pollMs = options.pollMs ?? STREAM_POLL_MS;
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? abortableSleep;
+  const end = now() + (options.maxMs ?? Infinity);
+  let last = options.lastEventId ?? null;
+  let lastFetchedAt: string | null = null;
+
+  write(`retry: ${STREAM_RETRY_MS}\n\n`);
+  while (!signal.aborted && now() < end) {
+    const res = await proxy("GET", "/api/v2/observations");
+    if (signal.aborted) break;
+    const { observations, fetchedAt, status } = splitBody(res.body);
+    const current = res.status === 200 ? eventId(observations) : null;
+    if (current !== null && current !== last) {
+      last = current;
+      lastFetchedAt = fetchedAt;
+      write(`id: ${current}\nevent: observations\ndata: ${res.body}\n\n`);
+    } else if (current !== null && fetchedAt && fetchedAt !== lastFetchedAt) {
+      lastFetchedAt = fetchedAt;
+      write(`event: status\ndata: ${status}\n\n`);
+    } else {
+      write(": no change\n\n");
+    }
+    await sleep(Math.max(0, Math.min(pollMs, end - now())), signal);
+  }
+}
+
+// ── Node adapter ──────────────────────────────────────────────────────────────
+// Vercel's Node runtime and Vite's connect middleware both hand us plain
+// IncomingMessage / ServerResponse pairs
+
+export function nodeHandler(
+  proxy: JwstProxy,
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    // connect strips the mount path from req.url; originalUrl keeps it
+    const url =
+      (req as IncomingMessage & { originalUrl?: string }).originalUrl ??
+      req.url ??
+      "/";
+    const response = await proxy(req.method ?? "GET", url);
+    res.statusCode = response.status;
+    for (const [name, value] of Object.entries(response.headers)) {
+      res.setHeader(name, value);
+    }
+    res.end(response.body);
+  };
+}
+
+export function nodeStreamHandler(
+  proxy: JwstProxy,
+  options: StreamOptions = {},
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    if (req.method !== "GET") {
+      res.statusCode = 405;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ error: "Method not allowed" }));
+      return;
+    }
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no"); // don't let a proxy buffer it
+    res.flushHeaders();
+
+    const closed = new AbortController();
+    req.on("close", () => closed.abort());
+    const lastEventId = req.headers["last-event-id"];
+    try {
+      await streamObservations(
+        proxy,
+        (chunk) => res.write(chunk),
+        closed.signal,
+        typeof lastEventId === "string" ? { ...options, lastEventId } : options,
+      );
+    } finally {
+      res.end();
+    }
+  };
+}
@@ -0,0 +1,341 @@
+// Storage for the /api/jwst proxy — the last MAST responses, so a cold start
+// serves what the previous instance fetched instead of waiting ~90 s on
+// MAST, and an append-only history of every observation the proxy has seen.
+//
+// Adapters:  filesystem   local dev (.data/ by default) — inspectable JSON
+//            KV           production; Upstash / Vercel KV REST API
+//            memory       nothing persisted; for trying the proxy in isolation
+//
+// createStorage() picks one from the environment. Files prefixed with _ are
+// not routed by Vercel.
+
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { observationKey, rowToObservation } from "../../src/data/MastRows.js";
+
+export interface CachedResponse {
+  body: string;
+  time: number; // ms epoch when fetched from MAST
+}
+
+export interface HistoryEntry {
+  key: string; // fileSetName, or setup + start time (see historyKey)
+  recordedAt: number; // ms epoch when the proxy first saw it
+  row: Record<string, unknown>; // the MAST row as returned
+}
+
+export interface ProxyStorage {
+  readonly kind: "filesystem" | "kv" | "memory";
+  getResponse(key: string): Promise<CachedResponse | null>;
+  // expireSeconds: may be dropped after this (KV only; others keep it)
+  setResponse(
+    key: string,
+    value: CachedResponse,
+    expireSeconds?: number,
+  ): Promise<void>;
+  // Entries whose key is already stored are skipped
+  appendHistory(entries: HistoryEntry[]): Promise<void>;
+  // Oldest first, recorded strictly after `since`
+  readHistory(since: number, limit: number): Promise<HistoryEntry[]>;
+}
+
+// Oldest entries are dropped past this, so a long-lived store stays bounded
+export const HISTORY_MAX_ENTRIES = 10_000;
+
+// `entries` less those `known` has seen and repeats within the batch
+function unseenEntries(
+  entries: HistoryEntry[],
+  known: (key: string) => boolean,
+): HistoryEntry[] {
+  const batch = new Set<string>();
+  return entries.filter((e) => {
+    if (known(e.key) || batch.has(e.key)) return false;
+    batch.add(e.key);
+    return true;
+  });
+}
+
+// ── Memory ────────────────────────────────────────────────────────────────────
+
+export function memoryStorage(): ProxyStorage {
+  const responses = new Map<string, CachedResponse>();
+  let history: HistoryEntry[] = [];
+  let keys = new Set<string>();
+  return {
+    kind: "memory",
+    async getResponse(key) {
+      return responses.get(key) ?? null;
+    },
+    async setResponse(key, value) {
+      responses.set(key, value);
+    },
+    async appendHistory(entries) {
+      const fresh = unseenEntries(entries, (key) => keys.has(key));
+      if (fresh.length === 0) return;
+      history = history.concat(fresh).slice(-HISTORY_MAX_ENTRIES);
+      keys = new Set(history.map((e) => e.key));
+    },
+    async readHistory(since, limit) {
+      return history.filter((e) => e.recordedAt > since).slice(0, limit);
+    },
+  };
+}
+
+// ── Filesystem ────────────────────────────────────────────────────────────────
+// One JSON file per cached response, history as JSON lines. The history file
+// isn't trimmed — delete it to start over. Its keys are read once, on the
+// first append, and kept for deduping.
+
+export function fileStorage(dir: string): ProxyStorage {
+  const ready = mkdir(join(dir, "responses"), { recursive: true });
+  const responsePath = (key: string) =>
+    join(dir, "responses", `${encodeURIComponent(key)}.json`);
+  const historyPath = join(dir, "history.jsonl");
+  let keys: Promise<Set<string>> | null = null;
+
+  async function readEntries(): Promise<HistoryEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(historyPath, "utf8");
+    } catch {
+      return [];
+    }
+    return text
+      .split("\n")
+      .filter((line) => line)
+      .map((line): HistoryEntry => JSON.parse(line));
+  }
+
+  return {
+    kind: "filesystem",
+    async getResponse(key) {
+      try {
+        return JSON.parse(await readFile(responsePath(key), "utf8"));
+      } catch {
+        return null;
+      }
+    },
+    async setResponse(key, value) {
+      await ready;
+      await writeFile(responsePath(key), JSON.stringify(value));
+    },
+    async appendHistory(entries) {
+      if (entries.length === 0) return;
+      keys ??= readEntries().then((all) => new Set(all.map((e) => e.key)));
+      const known = await keys;
+      const fresh = unseenEntries(entries, (key) => known.has(key));
+      if (fresh.length === 0) return;
+      for (const e of fresh) known.add(e.key);
+      await ready;
+      await appendFile(
+        historyPath,
+        fresh.map((e) => JSON.stringify(e) + "\n").join(""),
+      );
+    },
+    async readHistory(since, limit) {
+      const all = await readEntries();
+      return all.filter((e) => e.recordedAt > since).slice(0, limit);
+    },
+  };
+}
+
+// ── KV (Upstash / Vercel KV REST) ─────────────────────────────────────────────
+// Commands are POSTed as JSON arrays; responses are { result } or { error }.
+// History is one list, appended with RPUSH and trimmed with LTRIM; beside it a
+// sorted set of the keys in it (scored by recordedAt, trimmed to the same
+// size) for deduping. The list is in recording order, so a read binary-searches
+// it with LINDEX for the first entry after `since` and LRANGEs one page.
+
+const KV_PREFIX = "webbwave:jwst:";
+const KV_HISTORY = `${KV_PREFIX}history`;
+const KV_HISTORY_KEYS = `${KV_PREFIX}history-keys`;
+
+export function kvStorage(url: string, token: string): ProxyStorage {
+  async function command<T>(...args: (string | number)[]): Promise<T> {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(5_000),
+    });
+    const json = (await res.json()) as { result?: T; error?: string };
+    if (!res.ok || json.error) {
+      throw new Error(`KV ${args[0]} failed: ${json.error ?? res.status}`);
+    }
+    return json.result as T;
+  }
+
+  return {
+    kind: "kv",
+    async getResponse(key) {
+      const raw = await command<string | null>("GET", KV_PREFIX + key);
+      return raw ? JSON.parse(raw) : null;
+    },
+    async setResponse(key, value, expireSeconds) {
+      const expiry = expireSeconds ? ["EX", expireSeconds] : [];
+      await command("SET", KV_PREFIX + key, JSON.stringify(value), ...expiry);
+    },
+    async appendHistory(entries) {
+      if (entries.length === 0) return;
+      const scores = await command<(string | null)[]>(
+        "ZMSCORE",
+        KV_HISTORY_KEYS,
+        ...entries.map((e) => e.key),
+      );
+      const known = new Set(
+        entries.filter((_, i) => scores[i]).map((e) => e.key),
+      );
+      const fresh = unseenEntries(entries, (key) => known.has(key));
+      if (fresh.length === 0) return;
+      await command(
+        "RPUSH",
+        KV_HISTORY,
+        ...fresh.map((e) => JSON.stringify(e)),
+      );
+      await command(
+        "ZADD",
+        KV_HISTORY_KEYS,
+        ...fresh.flatMap((e) => [e.recordedAt, e.key]),
+      );
+      await command("LTRIM", KV_HISTORY, -HISTORY_MAX_ENTRIES, -1);
+      await command(
+        "ZREMRANGEBYRANK",
+        KV_HISTORY_KEYS,
+        0,
+        -HISTORY_MAX_ENTRIES - 1,
+      );
+    },
+    async readHistory(since, limit) {
+      const recordedAt = async (index: number) => {
+        const raw = await command<string | null>("LINDEX", KV_HISTORY, index);
+        return raw ? (JSON.parse(raw) as HistoryEntry).recordedAt : Infinity;
+      };
+      let lo = 0;
+      let hi = await command<number>("LLEN", KV_HISTORY);
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if ((await recordedAt(mid)) > since) hi = mid;
+        else lo = mid + 1;
+      }
+      const raw = await command<string[]>(
+        "LRANGE",
+        KV_HISTORY,
+        lo,
+        lo + limit - 1,
+      );
+      return raw.map((s): HistoryEntry => JSON.parse(s));
+    },
+  };
+}
+
+// ── Selection ─────────────────────────────────────────────────────────────────
+//   KV_REST_API_URL + KV_REST_API_TOKEN   → KV
+//   JWST_DATA_DIR                         → filesystem there
+//   on Vercel without KV                  → memory, history off (logged)
+//   otherwise                             → filesystem in ./.data
+//
+// Vercel instances share nothing but KV: anything else would cache per
+// instance and serve each one's own partial history, so without KV the
+// responses are cached in memory only and /api/jwst/history answers 503.
+
+type Env = Record<string, string | undefined>;
+
+export function createStorage(env: Env = process.env): ProxyStorage {
+  if (env.KV_REST_API_URL && env.KV_REST_API_TOKEN) {
+    return kvStorage(env.KV_REST_API_URL, env.KV_REST_API_TOKEN);
+  }
+  if (env.JWST_DATA_DIR) return fileStorage(env.JWST_DATA_DIR);
+  if (env.VERCEL) {
+    console.error(
+      "jwst: KV_REST_API_URL and KV_REST_API_TOKEN aren't set — caching in " +
+        "memory only, and history is off",
+    );
+    return {
+      ...memoryStorage(),
+      async appendHistory() {},
+      async readHistory() {
+        throw new Error("history needs KV on Vercel");
+      },
+    };
+  }
+  return fileStorage(".data");
+}
+
+// ── History helpers ───────────────────────────────────────────────────────────
+
+// The same identity the client and the v2 ids use for a row
+export function historyKey(row: Record<string, unknown>): string {
+  return observationKey(rowToObservation(row));
+}
+
+// Rows of a fresh MAST body that weren't in the previous one — the latest
+// query is newest-first, so anything new turns up at the top
+export function newHistoryEntries(
+  body: string,
+  previous: string | null,
+  now: number,
+): HistoryEntry[] {
+  const rows = (b: string | null): Record<string, unknown>[] => {
+    if (!b) return [];
+    try {
+      const results = JSON.parse(b).results;
+      return Array.isArray(results) ? results : [];
+    } catch {
+      return [];
+    }
+  };
+  const seen = new Set(rows(previous).map(historyKey));
+  return rows(body)
+    .filter((row) => !seen.has(historyKey(row)))
+    .reverse()
+    .map((row) => ({ key: historyKey(row), recordedAt: now, row }));
+}
+
+// ?since= as an ISO date or ms epoch; 0 (everything) when absent
+export function parseSince(url: string | undefined): number | "invalid" {
+  const raw = new URL(url ?? "/", "http://localhost").searchParams.get("since");
+  if (raw === null || raw === "") return 0;
+  const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  return Number.isFinite(ms) ? ms : "invalid";
+}
+
+const HISTORY_PAGE = 500;
+
+// GET /api/jwst/history?since= — MAST-shaped rows, oldest first, each with
+// the recorded_at the proxy first saw it. `next` is the since for the
+// following page, or null when caught up.
+export async function historyResponse(
+  storage: ProxyStorage,
+  url: string | undefined,
+): Promise<{ status: number; body: string }> {
+  const since = parseSince(url);
+  if (since === "invalid") {
+    return {
+      status: 400,
+      body: JSON.stringify({ error: "since must be an ISO date or ms epoch" }),
+    };
+  }
+  let entries = await storage.readHistory(since, HISTORY_PAGE);
+  const full = entries.length === HISTORY_PAGE;
+  // A full page ends on a whole batch, so paging on recordedAt skips nothing
+  if (full) {
+    const lastTime = entries[entries.length - 1].recordedAt;
+    const whole = entries.filter((e) => e.recordedAt < lastTime);
+    if (whole.length > 0) entries = whole;
+  }
+  const last = entries[entries.length - 1];
+  return {
+    status: 200,
+    body: JSON.stringify({
+      since: new Date(since).toISOString(),
+      next: full ? new Date(last.recordedAt).toISOString() : null,
+      results: entries.map((e) => ({
+        ...e.row,
+        recorded_at: new Date(e.recordedAt).toISOString(),
+      })),
+    }),
+  };
+}
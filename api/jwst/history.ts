@@ -0,0 +1,11 @@
+// Vercel Serverless Function — the proxy's append-only observation history.
+//
+// Client calls: GET /api/jwst/history                 — everything stored
+//               GET /api/jwst/history?since=ISO|ms    — recorded after since
+//
+// Rows are appended by /api/jwst whenever a MAST poll turns up new ones (see
+// _lib/storage.ts); this only reads them back, through the shared proxy.
+
+import { createJwstProxy, nodeHandler } from "../_lib/proxy.js";
+
+export default nodeHandler(createJwstProxy());
@@ -0,0 +1,14 @@
+// Vercel Serverless Function — normalised observations, schema v2.
+//
+// Client calls: GET /api/v2/observations                  — latest observations
+//               GET /api/v2/observations?from=ISO&to=ISO  — date_obs window
+//
+// Same cache and upstream as /api/jwst (see _lib/proxy.ts); the rows are
+// filtered and mapped server-side into the schema in
+// src/data/ObservationSchema.ts, so clients other than the app can use it.
+
+import { createJwstProxy, nodeHandler } from "../_lib/proxy.js";
+
+export const config = { maxDuration: 120 }; // allow up to 120s for the upstream fetch
+
+export default nodeHandler(createJwstProxy());
@@ -0,0 +1,23 @@
+// Vercel Serverless Function — latest observations as server-sent events.
+//
+// Client calls: GET /api/v2/observations/stream   (EventSource)
+//
+// Pushes an "observations" event (the /api/v2/observations body) on connect
+// and whenever the proxy cache refreshes with different observations; see
+// streamObservations in _lib/proxy.ts. The function closes the stream before
+// its time limit and the client's EventSource reconnects on its own.
+
+import {
+  UPSTREAM_TIMEOUT_MS,
+  createJwstProxy,
+  nodeStreamHandler,
+} from "../../_lib/proxy.js";
+
+export const config = { maxDuration: 120 }; // a refresh can wait ~90s on MAST
+
+// A poll can start just before maxMs and then wait on MAST for as long as
+// UPSTREAM_TIMEOUT_MS, so the two together, plus some slack for the cache
+// reads and writes around it, have to stay inside maxDuration: 15 s here
+const MAX_MS = config.maxDuration * 1000 - UPSTREAM_TIMEOUT_MS - 5_000;
+
+export default nodeStreamHandler(createJwstProxy(), { maxMs: MAX_MS });
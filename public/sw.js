@@ -0,0 +1,143 @@
+// Webbwave service worker — lets an installed (or previously visited) app
+// start and keep playing with no network, e.g. gallery installs on flaky
+// Wi-Fi. Registered by main.ts in production builds only.
+//
+//   app shell, audio   precached at install from sw-manifest.js, which the
+//                      build writes (see vite.config.ts); served cache first
+//   /api/*             network first; the last API_CACHE_MAX answers are
+//                      kept and served when the network fails, so the
+//                      fetcher plays the cached observations (the event
+//                      stream passes straight through)
+//   pages              network first, the cached shell when offline
+//
+// <audio> elements ask for byte ranges; those are cut from the cached file.
+
+importScripts("/sw-manifest.js");
+
+const { version, urls } = self.__WEBBWAVE_PRECACHE__;
+const SHELL_PREFIX = "webbwave-shell-";
+const SHELL_CACHE = SHELL_PREFIX + version;
+const API_CACHE = "webbwave-api";
+const API_CACHE_MAX = 20;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(urls))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// Drop the shells of earlier builds; the API cache carries over
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((k) => k.startsWith(SHELL_PREFIX) && k !== SHELL_CACHE)
+            .map((k) => caches.delete(k)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/api/")) {
+    if (url.pathname.endsWith("/stream")) return;
+    event.respondWith(apiResponse(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(pageResponse(request));
+  } else {
+    event.respondWith(shellResponse(request));
+  }
+});
+
+// ── Strategies ────────────────────────────────────────────────────────────────
+
+async function shellResponse(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  // By URL: a Range request must still find the whole cached file
+  const cached = await cache.match(request.url);
+  if (!cached) return fetch(request);
+  return request.headers.has("Range")
+    ? rangeResponse(request.headers.get("Range"), cached)
+    : cached;
+}
+
+async function pageResponse(request) {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const shell = await caches.match("/", { cacheName: SHELL_CACHE });
+    if (shell) return shell;
+    throw err;
+  }
+}
+
+// The proxy's bundled fallback isn't stored — it would replace real data
+async function apiResponse(request) {
+  const cache = await caches.open(API_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && response.headers.get("X-Cache") !== "FALLBACK") {
+      await cache.put(request, response.clone());
+      await trimCache(cache, API_CACHE_MAX);
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Keys come back oldest first (a put replaces and re-appends)
+async function trimCache(cache, max) {
+  const keys = await cache.keys();
+  const excess = keys.slice(0, Math.max(0, keys.length - max));
+  await Promise.all(excess.map((key) => cache.delete(key)));
+}
+
+// ── Range requests ────────────────────────────────────────────────────────────
+// "bytes=start-end", "bytes=start-" or "bytes=-suffix" of a whole response,
+// as a 206; a single range is all media elements ask for.
+
+async function rangeResponse(range, whole) {
+  const buffer = await whole.arrayBuffer();
+  const size = buffer.byteLength;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  let start = NaN;
+  let end = NaN;
+  if (match && match[1] !== "") {
+    start = Number(match[1]);
+    end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  } else if (match && match[2] !== "") {
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  }
+  if (!(start <= end)) {
+    return new Response(null, {
+      status: 416,
+      headers: { "Content-Range": `bytes */${size}` },
+    });
+  }
+  return new Response(buffer.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Content-Type":
+        whole.headers.get("Content-Type") ?? "application/octet-stream",
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+      "Content-Length": String(end - start + 1),
+      "Accept-Ranges": "bytes",
+    },
+  });
+}
@@ -1,7 +1,45 @@
 import type { ObservationData } from "../data/JWSTFetcher";
 import { mapObservation } from "./DataMapper";
+import { CLASSIC_PROFILE, type MappingProfile } from "./MappingProfile";
+import { classifyTarget } from "../data/TargetClassifier";
+import { realtimeClock, type AudioClock } from "./AudioClock";
+import { mulberry32 } from "./SeededRandom";
+import type { ImageFeatures } from "./ImageSonifier";
+import {
+  SPECTRAL_FEATURES,
+  isSpectroscopic,
+  spectralRange,
+  type SpectralRange,
+} from "../data/JWSTFilters";
 
 const RAMP_TIME_S = 4.0;
+const IMAGE_TONE_OPEN_HZ = 20_000;
+// Resonance the zoom shaping is tuned around; the observation's filter Q
+// (bandwidth, see DataMapper) scales it relative to this
+const NEUTRAL_FILTER_Q = 1.2;
+
+// Spectroscopy — a bank of narrow band-passes, one per slice of the
+// disperser's range: short wavelengths ring high, long ones low
+const SPECTRAL_BANDS = 16;
+const SPECTRAL_HIGH_HZ = 3520;
+const SPECTRAL_LOW_HZ = 220;
+const SPECTRAL_Q = 60;
+const SPECTRAL_LEVEL = 0.5;
+const SPECTRAL_LINE_GAIN = 6; // slice holding a known feature
+const SPECTRAL_CONTINUUM_GAIN = 1.2;
+const SPECTRAL_DRONE_DUCK = 0.35; // drone level under a spectrum
+// How long after the spectrum (or planet) goes the bank is unwired and the
+// noise stopped — five time constants of the fade-out
+const SPECTRAL_RELEASE_MS = 10_000;
+
+// Solar-system targets — magnetospheric whistlers: a resonant band-pass on
+// the same noise, swept down in short falling tones every evolution tick
+const WHISTLER_Q = 18;
+const WHISTLER_LEVEL = 0.35;
+const WHISTLER_HIGH_HZ = [2400, 4800];
+const WHISTLER_LOW_HZ = 200;
+const WHISTLER_DURATION_S = [1.2, 3.0];
+const WHISTLER_MAX_PER_TICK = 3;
 
 // Base root frequency: A1 = 55 Hz
 const ROOT_HZ = 55;
@@ -32,9 +70,10 @@ function buildFreqs(rootSemitones: number, mode: string): number[] {
 
 // Generate a long white-noise decay impulse for convolution reverb
 function makeImpulseResponse(
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   duration: number,
   decay: number,
+  rand: () => number = Math.random,
 ): AudioBuffer {
   const sr = ctx.sampleRate;
   const length = Math.floor(sr * duration);
@@ -42,7 +81,7 @@ function makeImpulseResponse(
   for (let ch = 0; ch < 2; ch++) {
     const data = buf.getChannelData(ch);
     for (let i = 0; i < length; i++) {
-      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay);
+      data[i] = (rand() * 2 - 1) * Math.pow(1 - i / length, decay);
     }
   }
   return buf;
@@ -62,17 +101,18 @@ interface GrainLine {
 }
 
 function buildGrainCloud(
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   input: AudioNode,
   output: AudioNode,
+  rand: () => number = Math.random,
   count = 6,
 ): GrainLine[] {
   const lines: GrainLine[] = [];
   for (let i = 0; i < count; i++) {
-    const baseDelay = 0.04 + Math.random() * 0.18; // 40–220 ms
-    const modDepth = 0.008 + Math.random() * 0.022; // ±8–30 ms wobble
-    const modRate = 0.08 + Math.random() * 0.4; // 0.08–0.48 Hz
-    const fbGain = 0.25 + Math.random() * 0.3; // 25–55% feedback
+    const baseDelay = 0.04 + rand() * 0.18; // 40–220 ms
+    const modDepth = 0.008 + rand() * 0.022; // ±8–30 ms wobble
+    const modRate = 0.08 + rand() * 0.4; // 0.08–0.48 Hz
+    const fbGain = 0.25 + rand() * 0.3; // 25–55% feedback
 
     const delay = ctx.createDelay(0.5);
     delay.delayTime.value = baseDelay;
@@ -112,6 +152,31 @@ function buildGrainCloud(
   return lines;
 }
 
+// Nearest pitch in the current chord (any octave), so the resonators ring
+// in key with the drone
+function nearestChordTone(hz: number, rootSemitones: number, mode: string) {
+  const classes = (CHORD_MODES[mode] ?? CHORD_MODES["MAJ"]).map(
+    (iv) => iv % 12,
+  );
+  const semis = 12 * Math.log2(hz / ROOT_HZ) - rootSemitones;
+  let best = Math.round(semis);
+  let bestDist = Infinity;
+  for (let s = Math.floor(semis) - 6; s <= Math.ceil(semis) + 6; s++) {
+    if (!classes.includes(((s % 12) + 12) % 12)) continue;
+    const d = Math.abs(s - semis);
+    if (d < bestDist) {
+      best = s;
+      bestDist = d;
+    }
+  }
+  return ROOT_HZ * Math.pow(2, (best + rootSemitones) / 12);
+}
+
+interface Resonator {
+  filter: BiquadFilterNode;
+  gain: GainNode;
+}
+
 interface Voice {
   osc: OscillatorNode;
   gain: GainNode;
@@ -120,13 +185,33 @@ interface Voice {
 }
 
 export class AmbientEngine {
-  private ctx: AudioContext | null = null;
+  private clock: AudioClock;
+  private ctx: BaseAudioContext | null = null;
   private voices: Voice[] = [];
   private grainLines: GrainLine[] = [];
   private grainInputGain: GainNode | null = null; // controls how much raw osc feeds grains
   private grainOutputGain: GainNode | null = null; // controls grain wet level into mix
 
   private filter: BiquadFilterNode | null = null;
+  // Image sonification layer — own nodes, so it sits on top of the data and
+  // knob mappings instead of fighting them (see setImageFeatures)
+  private imageTone: BiquadFilterNode | null = null;
+  private imageGrainGain: GainNode | null = null;
+  private _imageVoiceWeights: number[] = [];
+  // Spectroscopy layer — silent for imaging (see _applySpectrum), and not
+  // running at all once released (see _updateSpectralSources)
+  private noiseBuffer: AudioBuffer | null = null;
+  private spectralNoise: AudioBufferSourceNode | null = null;
+  private spectralInput: GainNode | null = null;
+  private resonators: Resonator[] = [];
+  private _bankWired = false;
+  private _spectralReleaseTimer: number | null = null;
+  private spectralGain: GainNode | null = null;
+  private _spectrum: SpectralRange | null = null;
+  private _spectralDuck = 1;
+  private whistler: BiquadFilterNode | null = null;
+  private whistlerGain: GainNode | null = null;
+  private _planetMode = false;
   private convolver: ConvolverNode | null = null;
   private reverbGain: GainNode | null = null;
   private dryGain: GainNode | null = null;
@@ -146,16 +231,29 @@ export class AmbientEngine {
   private _rootSemitones = 0; // semitones above A1 for current root
   private _chordMode = "MAJ";
   private _unfoldAmount = 0.25;
-  private _evolveTimer: ReturnType<typeof setInterval> | null = null;
+  private _dataQ = NEUTRAL_FILTER_Q;
+  private _evolveTimer: number | null = null;
   private _pulseAmount = 0.25;
+  // Seeded mode: every random choice in the graph comes from one PRNG stream
+  private _seed: number | null = null;
+  private _profile: MappingProfile = CLASSIC_PROFILE;
+  private _rand: () => number = Math.random;
+
+  constructor(clock: AudioClock = realtimeClock) {
+    this.clock = clock;
+  }
 
   get isStarted(): boolean {
     return this._isStarted;
   }
 
-  start(ctx: AudioContext): void {
+  // destination defaults to the context's own output; an offline render
+  // passes an OfflineAudioContext plus an OfflineClock (see SessionExporter)
+  start(ctx: BaseAudioContext, destination: AudioNode = ctx.destination): void {
     this.ctx = ctx;
     this._isStarted = true;
+    // Restart the stream so the same seed rebuilds the same graph every start
+    this._rand = this._seed === null ? Math.random : mulberry32(this._seed);
 
     // Analyser
     this.analyser = ctx.createAnalyser();
@@ -166,7 +264,7 @@ export class AmbientEngine {
     this.compressor.threshold.value = -18;
     this.compressor.ratio.value = 4;
     this.compressor.connect(this.analyser);
-    this.analyser.connect(ctx.destination);
+    this.analyser.connect(destination);
 
     // Master gain
     this.masterGain = ctx.createGain();
@@ -175,7 +273,7 @@ export class AmbientEngine {
 
     // Reverb
     this.convolver = ctx.createConvolver();
-    this.convolver.buffer = makeImpulseResponse(ctx, 14.0, 1.4); // 14s tail, slower decay
+    this.convolver.buffer = makeImpulseResponse(ctx, 14.0, 1.4, this._rand); // 14s tail, slower decay
 
     this.reverbGain = ctx.createGain();
     this.reverbGain.gain.value = 1.0;
@@ -194,6 +292,13 @@ export class AmbientEngine {
     this.filter.connect(this.dryGain);
     this.filter.connect(this.convolver);
 
+    // Image tone — wide open (transparent) until an image is sonified
+    this.imageTone = ctx.createBiquadFilter();
+    this.imageTone.type = "lowpass";
+    this.imageTone.frequency.value = IMAGE_TONE_OPEN_HZ;
+    this.imageTone.Q.value = 0.5;
+    this.imageTone.connect(this.filter);
+
     // LFO — modulates master gain for a gentle global swell, not per-voice tremolo
     // lfoGain depth is kept small (≤ 0.05) so it reads as breathing, not fading
     this.lfoGain = ctx.createGain();
@@ -217,12 +322,12 @@ export class AmbientEngine {
       gain.gain.value = 0.0;
       const driftOsc = ctx.createOscillator();
       driftOsc.type = "sine";
-      driftOsc.frequency.value = 0.004 + Math.random() * 0.03;
+      driftOsc.frequency.value = 0.004 + this._rand() * 0.03;
       const driftGain = ctx.createGain();
-      driftGain.gain.value = 1.5 + Math.random() * 4.5;
+      driftGain.gain.value = 1.5 + this._rand() * 4.5;
 
       osc.connect(gain);
-      gain.connect(this.filter);
+      gain.connect(this.imageTone);
       driftOsc.connect(driftGain);
       driftGain.connect(osc.detune);
       osc.start();
@@ -231,6 +336,54 @@ export class AmbientEngine {
       this.voices.push({ osc, gain, driftOsc, driftGain });
     }
 
+    // ── Spectral resonator bank ───────────────────────────────────────────────
+    // Noise and the drone excite the band-passes; the bank bypasses the
+    // lowpass so the high slices (short wavelengths) still sing. The noise
+    // and the bank's input are connected on demand (_updateSpectralSources).
+    const noise = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+    const noiseData = noise.getChannelData(0);
+    for (let i = 0; i < noiseData.length; i++) {
+      noiseData[i] = this._rand() * 2 - 1;
+    }
+    this.noiseBuffer = noise;
+    this.spectralNoise = null;
+    this._bankWired = false;
+    const spectralInput = ctx.createGain();
+    spectralInput.gain.value = 0.5;
+    this.spectralInput = spectralInput;
+    this.imageTone.connect(spectralInput);
+
+    this.spectralGain = ctx.createGain();
+    this.spectralGain.gain.value = 0;
+    this.spectralGain.connect(this.dryGain);
+    this.spectralGain.connect(this.convolver);
+    this.resonators = [];
+    for (let i = 0; i < SPECTRAL_BANDS; i++) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = "bandpass";
+      filter.Q.value = SPECTRAL_Q;
+      filter.frequency.value = SPECTRAL_LOW_HZ;
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      filter.connect(gain);
+      gain.connect(this.spectralGain);
+      this.resonators.push({ filter, gain });
+    }
+
+    // ── Whistlers ─────────────────────────────────────────────────────────────
+    // Silent until a planet mode tick schedules sweeps (see _scheduleWhistlers)
+    this.whistler = ctx.createBiquadFilter();
+    this.whistler.type = "bandpass";
+    this.whistler.Q.value = WHISTLER_Q;
+    this.whistler.frequency.value = WHISTLER_LOW_HZ;
+    this.whistlerGain = ctx.createGain();
+    this.whistlerGain.gain.value = 0;
+    spectralInput.connect(this.whistler);
+    this.whistler.connect(this.whistlerGain);
+    this.whistlerGain.connect(this.dryGain);
+    this.whistlerGain.connect(this.convolver);
+    this._updateSpectralSources();
+
     // ── Granular shimmer layer ────────────────────────────────────────────────
     // Feed the filter output into the grain cloud, then merge back into master
     this.grainInputGain = ctx.createGain();
@@ -244,8 +397,12 @@ export class AmbientEngine {
       ctx,
       this.grainInputGain,
       this.grainOutputGain,
+      this._rand,
     );
-    this.grainOutputGain.connect(this.reverbGain);
+    this.imageGrainGain = ctx.createGain();
+    this.imageGrainGain.gain.value = 1.0;
+    this.grainOutputGain.connect(this.imageGrainGain);
+    this.imageGrainGain.connect(this.reverbGain);
 
     // Fade master in over 2 s — voice gains are owned entirely by _applyZoom
     const now = ctx.currentTime;
@@ -265,7 +422,7 @@ export class AmbientEngine {
   // — pitch is intentionally excluded
   updateFromData(obs: ObservationData): void {
     if (!this.ctx || !this._isStarted) return;
-    const p = mapObservation(obs);
+    const p = mapObservation(obs, this._profile);
     const now = this.ctx.currentTime;
     const ramp = now + RAMP_TIME_S;
 
@@ -283,6 +440,18 @@ export class AmbientEngine {
     // LFO breathing rate
     this.lfo?.frequency.linearRampToValueAtTime(p.lfoRateHz, ramp);
 
+    // Filter resonance from the observation's bandwidth — applied through
+    // the zoom shaping below
+    this._dataQ = p.filterQ;
+
+    // Spectroscopy swaps the chord bed for the resonator bank
+    this._spectrum = isSpectroscopic(obs) ? spectralRange(obs) : null;
+    this._applySpectrum();
+
+    // Planets, moons and comets add whistlers from the next evolution tick
+    this._planetMode = classifyTarget(obs) === "solar-system";
+    this._updateSpectralSources();
+
     // Store per-voice density weights — zoom will gate these in _applyZoom
     // harmonicCount from data mapper is 1-4; scale it up to the active voice count
     const scaledCount = Math.round((p.harmonicCount / 4) * this.voices.length);
@@ -462,8 +631,16 @@ export class AmbientEngine {
       // Density from observation/coords shapes the mix but zoom presence is the hard gate
       const unfold =
         i >= this.voices.length - 2 ? 0.15 + 0.85 * this._unfoldAmount : 1;
+      // Image column brightness shapes, but never silences, a voice
+      const image = 0.3 + 0.7 * (this._imageVoiceWeights[i] ?? 1);
       const target =
-        MASTER * baseGains[i] * presence * this._voiceDensity[i] * unfold;
+        MASTER *
+        baseGains[i] *
+        presence *
+        this._voiceDensity[i] *
+        unfold *
+        image *
+        this._spectralDuck;
       v.gain.gain.cancelScheduledValues(now);
       v.gain.gain.setTargetAtTime(target, now, TC);
     });
@@ -480,11 +657,46 @@ export class AmbientEngine {
     const lfoDepth = 0.01 + value * 0.03;
     this.lfoGain?.gain.setTargetAtTime(lfoDepth, now, 0.5);
 
-    // Filter Q: purer ring when zoomed in, flat blend zoomed out
-    const q = 2.8 - value * 2.0;
+    // Filter Q: purer ring when zoomed in, flat blend zoomed out; narrow
+    // filters ring more, wide ones and dispersers less
+    const q = (2.8 - value * 2.0) * (this._dataQ / NEUTRAL_FILTER_Q);
     this.filter?.Q.setTargetAtTime(q, now, 0.5);
   }
 
+  // IMAGE — features from ImageSonifier for the part of the Webb image under
+  // the reticle; null (no image, or unreadable pixels) removes the layer
+  setImageFeatures(features: ImageFeatures | null): void {
+    this._imageVoiceWeights = features?.voiceWeights ?? [];
+    if (!this.ctx || !this._isStarted) return;
+    const now = this.ctx.currentTime;
+    const TC = 0.8;
+    this.imageTone?.frequency.setTargetAtTime(
+      features?.toneCutoffHz ?? IMAGE_TONE_OPEN_HZ,
+      now,
+      TC,
+    );
+    this.imageGrainGain?.gain.setTargetAtTime(
+      features ? 0.4 + features.grainDensity * 1.2 : 1.0,
+      now,
+      TC,
+    );
+    this._applyZoom(this._zoomNorm);
+  }
+
+  // PROFILE — how observation data maps onto the drone; heard from the next
+  // updateFromData
+  setProfile(profile: MappingProfile): void {
+    this._profile = profile;
+  }
+
+  // SEED — null = free-running Math.random. The impulse response, grain lines
+  // and drift oscillators are built in start(), so a new seed fully applies
+  // from the next start; the evolution walk follows it immediately.
+  setSeed(seed: number | null): void {
+    this._seed = seed;
+    this._rand = seed === null ? Math.random : mulberry32(seed);
+  }
+
   // CHORD — change root and/or mode; glides all oscillators over ~2 s
   setChord(rootSemitones: number, mode: string): void {
     this._rootSemitones = rootSemitones;
@@ -495,16 +707,101 @@ export class AmbientEngine {
     this.voices.forEach((v, i) => {
       v.osc.frequency.setTargetAtTime(freqs[i], now, 1.5);
     });
+    if (this._spectrum) this._applySpectrum();
+  }
+
+  // Lay the resonators across the current spectrum (or fade them out for
+  // imaging). Each slice of the range gets one band-pass, tuned to a chord
+  // tone; slices holding a known feature (SPECTRAL_FEATURES) ring loudest.
+  private _applySpectrum(): void {
+    if (!this.ctx || !this.spectralGain) return;
+    const now = this.ctx.currentTime;
+    const range = this._spectrum;
+    this._spectralDuck = range ? SPECTRAL_DRONE_DUCK : 1;
+    this.spectralGain.gain.setTargetAtTime(
+      range ? SPECTRAL_LEVEL * this.blend : 0,
+      now,
+      2.0,
+    );
+    if (!range) return;
+
+    const span = Math.log(range.toMicrons / range.fromMicrons);
+    this.resonators.forEach((r, i) => {
+      const t0 = i / SPECTRAL_BANDS;
+      const t1 = (i + 1) / SPECTRAL_BANDS;
+      const lo = range.fromMicrons * Math.exp(span * t0);
+      const hi = range.fromMicrons * Math.exp(span * t1);
+      const mid = (t0 + t1) / 2;
+      const hz = nearestChordTone(
+        SPECTRAL_HIGH_HZ * Math.pow(SPECTRAL_LOW_HZ / SPECTRAL_HIGH_HZ, mid),
+        this._rootSemitones,
+        this._chordMode,
+      );
+      const hasFeature = SPECTRAL_FEATURES.some(
+        (f) => f.microns >= lo && f.microns < hi,
+      );
+      const level = hasFeature
+        ? SPECTRAL_LINE_GAIN
+        : SPECTRAL_CONTINUUM_GAIN * (0.5 + this._rand() * 0.5);
+      r.filter.frequency.setTargetAtTime(hz, now, 1.5);
+      r.gain.gain.setTargetAtTime(level, now, 1.5);
+    });
+  }
+
+  // The noise runs only while something listens to it — the resonator bank
+  // for a spectrum, the whistlers for a planet — and the bank is wired in
+  // only for a spectrum. What's no longer needed is let go once it has faded.
+  private _updateSpectralSources(): void {
+    const ctx = this.ctx;
+    const input = this.spectralInput;
+    if (!ctx || !input || !this.noiseBuffer) return;
+    const wantBank = this._spectrum !== null;
+    const wantNoise = wantBank || this._planetMode;
+
+    if (wantNoise && !this.spectralNoise) {
+      this.spectralNoise = ctx.createBufferSource();
+      this.spectralNoise.buffer = this.noiseBuffer;
+      this.spectralNoise.loop = true;
+      this.spectralNoise.connect(input);
+      this.spectralNoise.start();
+    }
+    if (wantBank && !this._bankWired) {
+      for (const r of this.resonators) input.connect(r.filter);
+      this._bankWired = true;
+    }
+
+    if (this._spectralReleaseTimer !== null) {
+      this.clock.clear(this._spectralReleaseTimer);
+      this._spectralReleaseTimer = null;
+    }
+    if ((!wantNoise && this.spectralNoise) || (!wantBank && this._bankWired)) {
+      this._spectralReleaseTimer = this.clock.setTimeout(() => {
+        this._spectralReleaseTimer = null;
+        this._releaseSpectralSources();
+      }, SPECTRAL_RELEASE_MS);
+    }
+  }
+
+  private _releaseSpectralSources(): void {
+    if (this._spectrum === null && this._bankWired) {
+      for (const r of this.resonators) this.spectralInput?.disconnect(r.filter);
+      this._bankWired = false;
+    }
+    if (this._spectrum === null && !this._planetMode && this.spectralNoise) {
+      this.spectralNoise.stop();
+      this.spectralNoise.disconnect();
+      this.spectralNoise = null;
+    }
   }
 
   private _startEvolution(): void {
     if (this._evolveTimer || !this.ctx) return;
-    this._evolveTimer = setInterval(() => {
+    this._evolveTimer = this.clock.setInterval(() => {
       if (!this.ctx || !this._isStarted) return;
       const now = this.ctx.currentTime;
       const e = 0.15 + this._pulseAmount * 0.85;
       // Random-walk unfold for upper chord voices.
-      const step = (Math.random() * 2 - 1) * (0.12 + e * 0.34);
+      const step = (this._rand() * 2 - 1) * (0.12 + e * 0.34);
       this._unfoldAmount = clamp(this._unfoldAmount + step, 0, 1);
 
       // Slow movement over timbre + space.
@@ -514,13 +811,13 @@ export class AmbientEngine {
             ? 120 * Math.pow(4000 / 120, this.cutoffOverride)
             : this.filter.frequency.value;
         const hz = clamp(
-          baseHz * (1 + (Math.random() * 2 - 1) * (0.12 + e * 0.45)),
+          baseHz * (1 + (this._rand() * 2 - 1) * (0.12 + e * 0.45)),
           140,
           5500,
         );
         this.filter.frequency.setTargetAtTime(hz, now, 2.8);
         const q = clamp(
-          this.filter.Q.value + (Math.random() * 2 - 1) * (0.2 + e * 1.4),
+          this.filter.Q.value + (this._rand() * 2 - 1) * (0.2 + e * 1.4),
           0.3,
           8.0,
         );
@@ -531,12 +828,12 @@ export class AmbientEngine {
         const wetBase = 0.32 + this.blend * 1.15;
         const dryBase = Math.max(0.08, 0.3 - this.blend * 0.16);
         const wet = clamp(
-          wetBase + (Math.random() * 2 - 1) * (0.08 + e * 0.35),
+          wetBase + (this._rand() * 2 - 1) * (0.08 + e * 0.35),
           0.15,
           2.2,
         );
         const dry = clamp(
-          dryBase + (Math.random() * 2 - 1) * (0.04 + e * 0.14),
+          dryBase + (this._rand() * 2 - 1) * (0.04 + e * 0.14),
           0.03,
           0.5,
         );
@@ -546,16 +843,16 @@ export class AmbientEngine {
 
       // Slow drift in grain motion keeps texture alive.
       this.grainLines.forEach((g) => {
-        const nextRate = 0.03 + Math.random() * (0.12 + e * 0.33);
+        const nextRate = 0.03 + this._rand() * (0.12 + e * 0.33);
         g.modOsc.frequency.setTargetAtTime(nextRate, now, 3.5);
         const nextDepth = clamp(
-          g.modGain.gain.value + (Math.random() * 2 - 1) * (0.002 + e * 0.014),
+          g.modGain.gain.value + (this._rand() * 2 - 1) * (0.002 + e * 0.014),
           0.003,
           0.06,
         );
         g.modGain.gain.setTargetAtTime(nextDepth, now, 3.5);
         const nextFb = clamp(
-          g.feedback.gain.value + (Math.random() * 2 - 1) * (0.03 + e * 0.12),
+          g.feedback.gain.value + (this._rand() * 2 - 1) * (0.03 + e * 0.12),
           0.08,
           0.9,
         );
@@ -564,17 +861,42 @@ export class AmbientEngine {
 
       this.voices.forEach((v) => {
         const nextDrift = clamp(
-          v.driftGain.gain.value + (Math.random() * 2 - 1) * (0.8 + e * 6.0),
+          v.driftGain.gain.value + (this._rand() * 2 - 1) * (0.8 + e * 6.0),
           0.8,
           24,
         );
         v.driftGain.gain.setTargetAtTime(nextDrift, now, 4.5);
       });
 
+      if (this._planetMode) this._scheduleWhistlers(now, 5);
+
       this._applyZoom(this._zoomNorm);
     }, 5000);
   }
 
+  // One to three falling sweeps, one after another, inside the next
+  // `window` seconds so they never overlap the following tick's
+  private _scheduleWhistlers(now: number, window: number): void {
+    if (!this.whistler || !this.whistlerGain) return;
+    const freq = this.whistler.frequency;
+    const gain = this.whistlerGain.gain;
+    const count = 1 + Math.floor(this._rand() * WHISTLER_MAX_PER_TICK);
+    let t = now + 0.1 + this._rand() * 0.8;
+    for (let i = 0; i < count; i++) {
+      const [minD, maxD] = WHISTLER_DURATION_S;
+      const duration = minD + this._rand() * (maxD - minD);
+      if (t + duration > now + window - 0.1) break;
+      const [minHz, maxHz] = WHISTLER_HIGH_HZ;
+      const level = WHISTLER_LEVEL * this.blend * (0.5 + this._rand() * 0.5);
+      freq.setValueAtTime(minHz + this._rand() * (maxHz - minHz), t);
+      freq.exponentialRampToValueAtTime(WHISTLER_LOW_HZ, t + duration);
+      gain.setValueAtTime(0, t);
+      gain.linearRampToValueAtTime(level, t + 0.15);
+      gain.setTargetAtTime(0, t + 0.15, duration / 3);
+      t += duration + 0.2 + this._rand() * 0.6;
+    }
+  }
+
   // Legacy stubs kept so TypeScript doesn't error if called elsewhere
   setBlend(value: number): void {
     this.setSpace(value);
@@ -603,11 +925,16 @@ export class AmbientEngine {
     if (!this.ctx) return;
     const now = this.ctx.currentTime;
     if (this._evolveTimer !== null) {
-      clearInterval(this._evolveTimer);
+      this.clock.clear(this._evolveTimer);
       this._evolveTimer = null;
     }
+    if (this._spectralReleaseTimer !== null) {
+      this.clock.clear(this._spectralReleaseTimer);
+      this._spectralReleaseTimer = null;
+    }
     this.masterGain?.gain.linearRampToValueAtTime(0, now + 0.5);
     this.lfo?.stop(now + 0.6);
+    this.spectralNoise?.stop(now + 0.6);
     this.grainLines.forEach((g) => g.modOsc.stop(now + 0.6));
     this.voices.forEach((v) => {
       v.osc.stop(now + 0.6);
@@ -0,0 +1,99 @@
+// AudioClock — timer source for the slow evolution / random-walk steps in
+// AmbientEngine and RadioJoveLayer.
+//
+// Live playback runs on window timers. An OfflineAudioContext renders far
+// faster than real time, so window timers would fire at the wrong points in
+// the rendered audio; OfflineClock instead suspends the render at each due
+// time, runs the callbacks against the suspended context and resumes.
+
+export interface AudioClock {
+  setTimeout(fn: () => void, ms: number): number;
+  setInterval(fn: () => void, ms: number): number;
+  clear(id: number): void;
+}
+
+export const realtimeClock: AudioClock = {
+  setTimeout: (fn, ms) => window.setTimeout(fn, ms),
+  setInterval: (fn, ms) => window.setInterval(fn, ms),
+  clear: (id) => {
+    window.clearTimeout(id);
+    window.clearInterval(id);
+  },
+};
+
+interface OfflineTimer {
+  due: number; // seconds of render time
+  fn: () => void;
+  intervalS: number | null;
+}
+
+// Render quantum size fixed by the Web Audio spec
+const QUANTUM_FRAMES = 128;
+
+export class OfflineClock implements AudioClock {
+  private ctx: OfflineAudioContext;
+  private timers = new Map<number, OfflineTimer>();
+  private armedQuanta = new Set<number>();
+  private nextId = 1;
+
+  constructor(ctx: OfflineAudioContext) {
+    this.ctx = ctx;
+  }
+
+  setTimeout(fn: () => void, ms: number): number {
+    return this.add(fn, ms / 1000, null);
+  }
+
+  setInterval(fn: () => void, ms: number): number {
+    return this.add(fn, ms / 1000, ms / 1000);
+  }
+
+  clear(id: number): void {
+    this.timers.delete(id);
+  }
+
+  private add(fn: () => void, delayS: number, intervalS: number | null) {
+    const id = this.nextId++;
+    const due = this.ctx.currentTime + delayS;
+    this.timers.set(id, { due, fn, intervalS });
+    this.arm(due);
+    return id;
+  }
+
+  // suspend() is quantised to render quanta and may only be scheduled once
+  // per quantum, strictly after the current render position.
+  private arm(due: number): void {
+    const { sampleRate } = this.ctx;
+    if (due * sampleRate >= this.ctx.length) return;
+    const currentQuantum = Math.floor(
+      (this.ctx.currentTime * sampleRate) / QUANTUM_FRAMES,
+    );
+    const quantum = Math.max(
+      currentQuantum + 1,
+      Math.ceil((due * sampleRate) / QUANTUM_FRAMES),
+    );
+    if (this.armedQuanta.has(quantum)) return;
+    this.armedQuanta.add(quantum);
+    this.ctx
+      .suspend((quantum * QUANTUM_FRAMES) / sampleRate)
+      .then(() => {
+        this.fire();
+        return this.ctx.resume();
+      })
+      .catch((err) => console.warn("OfflineClock: suspend failed", err));
+  }
+
+  private fire(): void {
+    const now = this.ctx.currentTime + 1e-6;
+    for (const [id, timer] of [...this.timers]) {
+      if (timer.due > now) continue;
+      if (timer.intervalS === null) {
+        this.timers.delete(id);
+      } else {
+        timer.due += timer.intervalS;
+        this.arm(timer.due);
+      }
+      timer.fn();
+    }
+  }
+}
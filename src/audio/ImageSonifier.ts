@@ -0,0 +1,118 @@
+// ImageSonifier — reads the pixels of the Webb image in the background and
+// turns the part under the aim reticle into drone parameters, layered over
+// DataMapper's metadata mapping (see AmbientEngine.setImageFeatures):
+//
+//   column under the reticle → per-voice gains (bottom of the column = root,
+//                              top = highest voice), like a spectrogram read
+//                              upwards
+//   colour along the row     → cutoff of a tone filter: red is dark, blue bright
+//   texture along the row    → grain cloud density
+
+export interface ImageFeatures {
+  voiceWeights: number[]; // 0–1 per drone voice, root first
+  toneCutoffHz: number;
+  grainDensity: number; // 0–1
+}
+
+// Pixels are read once from a small copy — plenty for band averages
+const ANALYSIS_DIM = 160;
+const SCAN_HALF_WIDTH = 2; // px either side of the reticle in the copy
+
+export class ImageSonifier {
+  private pixels: ImageData | null = null;
+  private bands: number;
+
+  constructor(bands = 9) {
+    this.bands = bands;
+  }
+
+  // Returns false when the pixels can't be read (no image, or a cross-origin
+  // image the host didn't allow) — the image still shows, it just isn't heard
+  setImage(image: OffscreenCanvas | null): boolean {
+    this.pixels = null;
+    if (!image) return false;
+    const s = Math.min(1, ANALYSIS_DIM / Math.max(image.width, image.height));
+    const w = Math.max(1, Math.round(image.width * s));
+    const h = Math.max(1, Math.round(image.height * s));
+    const copy = new OffscreenCanvas(w, h);
+    const ctx = copy.getContext("2d")!;
+    ctx.drawImage(image, 0, 0, w, h);
+    try {
+      this.pixels = ctx.getImageData(0, 0, w, h);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === "SecurityError")) {
+        throw err;
+      }
+      console.info("ImageSonifier: image is cross-origin, not sonifying");
+      return false;
+    }
+    return true;
+  }
+
+  // u, v: normalized image coordinates (0–1) of the reticle
+  sample(u: number, v: number): ImageFeatures | null {
+    const px = this.pixels;
+    if (!px) return null;
+    const { width: w, height: h, data } = px;
+    const cx = Math.round(clamp(u, 0, 1) * (w - 1));
+    const cy = Math.round(clamp(v, 0, 1) * (h - 1));
+    const lum = (i: number) =>
+      (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+
+    // Column → voice bands, read bottom-up
+    const bandSums = new Array<number>(this.bands).fill(0);
+    const bandCounts = new Array<number>(this.bands).fill(0);
+    for (let y = 0; y < h; y++) {
+      const band = Math.min(
+        this.bands - 1,
+        Math.floor(((h - 1 - y) / h) * this.bands),
+      );
+      for (let x = cx - SCAN_HALF_WIDTH; x <= cx + SCAN_HALF_WIDTH; x++) {
+        if (x < 0 || x >= w) continue;
+        bandSums[band] += lum((y * w + x) * 4);
+        bandCounts[band]++;
+      }
+    }
+    const bandMeans = bandSums.map(
+      (sum, i) => sum / Math.max(1, bandCounts[i]),
+    );
+    const peak = Math.max(...bandMeans);
+    // Relative to the brightest band; a black column leaves the voices alone
+    const voiceWeights = bandMeans.map((m) =>
+      peak > 0.02 ? Math.sqrt(m / peak) : 1,
+    );
+
+    // Row → colour balance and texture
+    let r = 0;
+    let b = 0;
+    let sum = 0;
+    let sumSq = 0;
+    let n = 0;
+    for (let y = cy - SCAN_HALF_WIDTH; y <= cy + SCAN_HALF_WIDTH; y++) {
+      if (y < 0 || y >= h) continue;
+      for (let x = 0; x < w; x++) {
+        const i = (y * w + x) * 4;
+        r += data[i];
+        b += data[i + 2];
+        const l = lum(i);
+        sum += l;
+        sumSq += l * l;
+        n++;
+      }
+    }
+    // −1 = all blue, +1 = all red
+    const warmth = (r - b) / Math.max(1, r + b);
+    const mean = sum / Math.max(1, n);
+    const stdDev = Math.sqrt(Math.max(0, sumSq / Math.max(1, n) - mean * mean));
+
+    return {
+      voiceWeights,
+      toneCutoffHz: 1800 * Math.pow(2, -warmth * 2), // ~450 Hz red → ~7 kHz blue
+      grainDensity: clamp(stdDev * 4, 0, 1),
+    };
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { integratedLoudness } from "./Loudness";
+
+// BS.1770's calibration: a 997 Hz sine at 0 dBFS in one channel reads
+// -3.01 LUFS, whatever the sample rate
+
+function sine(amplitude: number, sampleRate: number, seconds = 3) {
+  return Float32Array.from(
+    { length: seconds * sampleRate },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * 997 * i) / sampleRate),
+  );
+}
+
+function buffer(channels: Float32Array[], sampleRate: number) {
+  return {
+    numberOfChannels: channels.length,
+    sampleRate,
+    getChannelData: (ch: number) => channels[ch],
+  };
+}
+
+describe("integratedLoudness", () => {
+  it.each([44_100, 48_000])(
+    "reads a full-scale 997 Hz sine as -3.01 LUFS at %i Hz",
+    (sampleRate) => {
+      const lufs = integratedLoudness(
+        buffer([sine(1, sampleRate)], sampleRate),
+      );
+      expect(lufs).toBeCloseTo(-3.01, 1);
+    },
+  );
+
+  it("follows the level, and sums channels", () => {
+    const quiet = sine(10 ** (-20 / 20), 48_000);
+    expect(integratedLoudness(buffer([quiet], 48_000))).toBeCloseTo(-23.01, 1);
+    expect(integratedLoudness(buffer([quiet, quiet], 48_000))).toBeCloseTo(
+      -20.0,
+      1,
+    );
+  });
+
+  it("gates out silence", () => {
+    const rate = 48_000;
+    const tone = sine(1, rate, 2);
+    const withGap = new Float32Array(tone.length * 2);
+    withGap.set(tone);
+    // Averaged with the silence it would read -6; only the blocks straddling
+    // the cut count for less
+    expect(integratedLoudness(buffer([withGap], rate))).toBeCloseTo(-3.01, 0);
+    expect(
+      integratedLoudness(buffer([new Float32Array(rate * 2)], rate)),
+    ).toBeNull();
+  });
+
+  it("has nothing to say about a track shorter than one block", () => {
+    expect(
+      integratedLoudness(buffer([sine(1, 48_000, 0.3)], 48_000)),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+// Loudness — integrated loudness of a decoded track, per ITU-R BS.1770-4
+// (what EBU R 128 and streaming services level to), so RadioJoveLayer can
+// bring recordings of very different levels to one target.
+//
+// Each channel is K-weighted (a high shelf for the head's acoustic effect and
+// a high-pass below ~38 Hz), mean squares are taken over 400 ms blocks with
+// 75 % overlap, and blocks are gated twice: below -70 LUFS is silence, and
+// then anything 10 LU under the average of what's left is a quiet passage.
+// Channels are weighted equally — right for the mono and stereo files used.
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+const BLOCK_STEPS = 4; // 400 ms block …
+const STEP_S = 0.1; // … moved on 100 ms at a time
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// ── K-weighting ───────────────────────────────────────────────────────────────
+// The standard gives coefficients for 48 kHz only; these are the analogue
+// prototypes behind them, bilinear-transformed for any rate (as libebur128).
+
+function kWeighting(sampleRate: number): [Biquad, Biquad] {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const sa0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+  const shelf: Biquad = {
+    b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / sa0,
+    b1: (2 * (shelfK * shelfK - vh)) / sa0,
+    b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / sa0,
+    a1: (2 * (shelfK * shelfK - 1)) / sa0,
+    a2: (1 - shelfK / shelfQ + shelfK * shelfK) / sa0,
+  };
+
+  const hpK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const hpQ = 0.5003270373238773;
+  const ha0 = 1 + hpK / hpQ + hpK * hpK;
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (hpK * hpK - 1)) / ha0,
+    a2: (1 - hpK / hpQ + hpK * hpK) / ha0,
+  };
+  return [shelf, highpass];
+}
+
+function lufs(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+function mean(values: readonly number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+// ── Measurement ───────────────────────────────────────────────────────────────
+// In two halves so a track can be measured a channel at a time (see
+// measureLoudness in TrackBuffer.ts): each channel's K-weighted energy, summed
+// across channels, then the gated loudness of the sum.
+
+// One channel's K-weighted energy per 100 ms step
+export function channelEnergy(
+  data: Float32Array,
+  sampleRate: number,
+): Float64Array {
+  const step = Math.round(STEP_S * sampleRate);
+  const [f1, f2] = kWeighting(sampleRate);
+  const energy = new Float64Array(Math.floor(data.length / step));
+  // Direct form II transposed, one state pair per stage
+  let s1 = 0;
+  let s2 = 0;
+  let t1 = 0;
+  let t2 = 0;
+  for (let j = 0; j < energy.length; j++) {
+    let sum = 0;
+    for (let i = j * step, end = i + step; i < end; i++) {
+      const x = data[i];
+      const y = f1.b0 * x + s1;
+      s1 = f1.b1 * x - f1.a1 * y + s2;
+      s2 = f1.b2 * x - f1.a2 * y;
+      const z = f2.b0 * y + t1;
+      t1 = f2.b1 * y - f2.a1 * z + t2;
+      t2 = f2.b2 * y - f2.a2 * z;
+      sum += z * z;
+    }
+    energy[j] = sum;
+  }
+  return energy;
+}
+
+// `total` with `channel` added in; the first channel becomes the total
+export function addEnergy(
+  total: Float64Array,
+  channel: Float64Array,
+): Float64Array {
+  if (total.length === 0) return channel;
+  for (let j = 0; j < total.length; j++) total[j] += channel[j];
+  return total;
+}
+
+// Integrated loudness in LUFS from the channels' summed step energies, or
+// null when they're shorter than one block or silent throughout
+export function gatedLoudness(
+  energy: Float64Array,
+  sampleRate: number,
+): number | null {
+  if (energy.length < BLOCK_STEPS) return null;
+  const step = Math.round(STEP_S * sampleRate);
+  const blocks: number[] = [];
+  for (let j = 0; j + BLOCK_STEPS <= energy.length; j++) {
+    let sum = 0;
+    for (let k = 0; k < BLOCK_STEPS; k++) sum += energy[j + k];
+    blocks.push(sum / (BLOCK_STEPS * step));
+  }
+
+  const audible = blocks.filter((z) => lufs(z) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return null;
+  const relativeGate = lufs(mean(audible)) + RELATIVE_GATE_LU;
+  return lufs(mean(audible.filter((z) => lufs(z) > relativeGate)));
+}
+
+// Integrated loudness in LUFS, or null when the track is shorter than one
+// block or silent throughout
+export function integratedLoudness(buffer: {
+  numberOfChannels: number;
+  sampleRate: number;
+  getChannelData(channel: number): Float32Array;
+}): number | null {
+  let energy: Float64Array = new Float64Array(0);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    energy = addEnergy(
+      energy,
+      channelEnergy(buffer.getChannelData(ch), buffer.sampleRate),
+    );
+  }
+  return gatedLoudness(energy, buffer.sampleRate);
+}
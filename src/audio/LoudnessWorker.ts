@@ -0,0 +1,15 @@
+// LoudnessWorker — channelEnergy (Loudness.ts) off the main thread, for
+// measureLoudness in TrackBuffer.ts. Posted { sampleRate, data } with one
+// channel's samples transferred; posts back its energy per step, transferred.
+
+import { channelEnergy } from "./Loudness";
+
+interface EnergyRequest {
+  sampleRate: number;
+  data: Float32Array;
+}
+
+self.onmessage = (e: MessageEvent<EnergyRequest>) => {
+  const energy = channelEnergy(e.data.data, e.data.sampleRate);
+  self.postMessage(energy, { transfer: [energy.buffer] });
+};
@@ -0,0 +1,487 @@
+// MappingProfile — declarative description of how an observation becomes
+// sound and picture, so mappings can be iterated on as JSON without touching
+// TypeScript. Consumed by AmbientEngine (via DataMapper), RadioJoveLayer and
+// GenerativeBackground.
+//
+// Every parameter is one of:
+//   range     { source: "dec", in: [-90, 90], out: [200, 1600], outputScale: "log" }
+//   category  { source: "objectClass", cases: [{ match: ["nebula"], value: 0.9 }], default: 0.5 }
+//   constant  { constant: 0.6 }
+//
+// Range inputs are clamped to `in`; omit in/out to pass the value through.
+// Category cases match case-insensitive substrings, first match wins.
+//
+// Text sources are the observation's own fields, plus objectClass — the
+// TargetClassifier's class (e.g. "hii-region", "solar-system").
+//
+// Numeric sources: ra, dec (degrees); wavelength (effective pivot, µm) and
+// bandwidth (fractional, Δλ/λ) of the observation's filter — see JWSTFilters.
+
+import type { ObservationData } from "../data/JWSTFetcher";
+import { observationBand } from "../data/JWSTFilters";
+import { classifyTarget } from "../data/TargetClassifier";
+
+export type NumericSource = "ra" | "dec" | "wavelength" | "bandwidth";
+export type TextSource =
+  "instrument" | "targetType" | "filter" | "targetName" | "objectClass";
+
+const NUMERIC_SOURCES: NumericSource[] = [
+  "ra",
+  "dec",
+  "wavelength",
+  "bandwidth",
+];
+const TEXT_SOURCES: TextSource[] = [
+  "instrument",
+  "targetType",
+  "filter",
+  "targetName",
+  "objectClass",
+];
+
+export interface RangeMapping {
+  source: NumericSource;
+  in?: [number, number];
+  out?: [number, number];
+  inputScale?: "linear" | "log";
+  outputScale?: "linear" | "log"; // log = geometric, for Hz
+  fallback?: number; // when the source has no value (e.g. filter "CLEAR")
+}
+
+export interface CategoryMapping<T> {
+  source: TextSource;
+  cases: { match: string[]; value: T }[];
+  default: T;
+}
+
+export interface ConstantMapping<T> {
+  constant: T;
+}
+
+export type NumberMapping =
+  RangeMapping | CategoryMapping<number> | ConstantMapping<number>;
+export type ValueMapping<T> = CategoryMapping<T> | ConstantMapping<T>;
+
+export const SCENE_KINDS = [
+  "galaxy-cluster",
+  "nebula",
+  "star",
+  "deep-field",
+  "planet",
+] as const;
+export type SceneKind = (typeof SCENE_KINDS)[number];
+
+export interface MappingProfile {
+  name: string;
+  audio: {
+    filterCutoffHz: NumberMapping;
+    filterQ: NumberMapping;
+    reverbMix: NumberMapping; // 0–1
+    lfoRateHz: NumberMapping;
+    harmonicCount: NumberMapping; // 1–4
+    density: NumberMapping; // 0–1
+  };
+  signal: {
+    // Track ids from public/audio/manifest.json, preferred first, ahead of
+    // the manifest's own order. The built-in profiles leave the choice to
+    // the manifest; this is for profiles loaded as JSON
+    tracks?: ValueMapping<string[]>;
+    // false: the manifest's tracks in their listed order whatever the
+    // observation, rather than the ones suited to its class first
+    byClass?: boolean;
+  };
+  visual: {
+    paletteMicrons: NumberMapping; // wavelength the background palette is drawn for
+    scene: ValueMapping<SceneKind>;
+  };
+}
+
+// ── Sources ───────────────────────────────────────────────────────────────────
+
+function textSource(obs: ObservationData, source: TextSource): string {
+  return source === "objectClass" ? classifyTarget(obs) : obs[source];
+}
+
+// Null when the filter isn't a recognised band (e.g. "CLEAR", "Unknown")
+function numericSource(
+  obs: ObservationData,
+  source: NumericSource,
+): number | null {
+  if (source === "ra" || source === "dec") return obs[source];
+  const band = observationBand(obs);
+  if (!band) return null;
+  return source === "wavelength"
+    ? band.pivotMicrons
+    : band.bandwidthMicrons / band.pivotMicrons;
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+function isConstant<T>(m: object): m is ConstantMapping<T> {
+  return "constant" in m;
+}
+
+function isCategory<T>(m: object): m is CategoryMapping<T> {
+  return "cases" in m;
+}
+
+function evaluateCategory<T>(m: CategoryMapping<T>, obs: ObservationData): T {
+  const text = textSource(obs, m.source).toLowerCase();
+  for (const c of m.cases) {
+    if (c.match.some((s) => text.includes(s.toLowerCase()))) return c.value;
+  }
+  return m.default;
+}
+
+function evaluateRange(m: RangeMapping, obs: ObservationData): number {
+  const v = numericSource(obs, m.source);
+  if (v === null) return m.fallback ?? m.out?.[0] ?? 0;
+  if (!m.in || !m.out) return v;
+
+  const [a, b] = m.in;
+  const [c, d] = m.out;
+  const logIn = m.inputScale === "log" && a > 0 && b > 0 && v > 0;
+  const raw = logIn
+    ? Math.log(v / a) / Math.log(b / a)
+    : (v - a) / (b - a || 1);
+  const t = Math.max(0, Math.min(1, raw));
+  return m.outputScale === "log" && c > 0 && d > 0
+    ? c * Math.pow(d / c, t)
+    : c + (d - c) * t;
+}
+
+export function evaluateNumber(m: NumberMapping, obs: ObservationData): number {
+  if (isConstant<number>(m)) return m.constant;
+  if (isCategory<number>(m)) return evaluateCategory(m, obs);
+  return evaluateRange(m, obs);
+}
+
+export function evaluateValue<T>(m: ValueMapping<T>, obs: ObservationData): T {
+  return isConstant<T>(m) ? m.constant : evaluateCategory(m, obs);
+}
+
+// ── Built-in profiles ─────────────────────────────────────────────────────────
+
+// Object classes match as substrings too, so the more specific class comes
+// first: "star-forming-region" before "star", "galaxy-cluster" before "galaxy"
+
+const CLASSIC_SCENE: ValueMapping<SceneKind> = {
+  source: "objectClass",
+  cases: [
+    { match: ["cluster", "galaxy", "agn"], value: "galaxy-cluster" },
+    { match: ["nebula", "region", "remnant"], value: "nebula" },
+    { match: ["solar-system"], value: "planet" },
+    { match: ["star", "exoplanet-host"], value: "star" },
+  ],
+  default: "deep-field",
+};
+
+const INSTRUMENT_HARMONICS: NumberMapping = {
+  source: "instrument",
+  cases: [
+    { match: ["nirspec"], value: 4 },
+    { match: ["nircam"], value: 3 },
+    { match: ["miri"], value: 2 },
+    { match: ["niriss"], value: 3 },
+    { match: ["fgs"], value: 1 },
+  ],
+  default: 3,
+};
+
+const TARGET_DENSITY: NumberMapping = {
+  source: "objectClass",
+  cases: [
+    { match: ["deep-field"], value: 1.0 },
+    { match: ["hii-region", "star-forming-region"], value: 0.9 },
+    { match: ["supernova-remnant"], value: 0.8 },
+    { match: ["planetary-nebula"], value: 0.7 },
+    { match: ["nebula"], value: 0.9 },
+    { match: ["cluster", "galaxy"], value: 0.8 },
+    { match: ["agn"], value: 0.7 },
+    { match: ["solar-system"], value: 0.4 },
+    { match: ["star", "exoplanet-host"], value: 0.3 },
+  ],
+  default: 0.5,
+};
+
+// Narrow filters ring, wide ones stay flat: fractional bandwidth from ~1%
+// (F164N) to ~75% (F150W2, dispersers) → Q 6 → 0.7. 1.2 is the engine's own.
+const BANDWIDTH_Q: NumberMapping = {
+  source: "bandwidth",
+  in: [0.01, 0.75],
+  out: [6, 0.7],
+  inputScale: "log",
+  outputScale: "log",
+  fallback: 1.2,
+};
+
+// The original mapping, with the filter read as real microns
+export const CLASSIC_PROFILE: MappingProfile = {
+  name: "classic",
+  audio: {
+    // −90° → 200 Hz (dark/cold), +90° → 1600 Hz (bright/warm)
+    filterCutoffHz: {
+      source: "dec",
+      in: [-90, 90],
+      out: [200, 1600],
+      outputScale: "log",
+    },
+    filterQ: BANDWIDTH_Q,
+    // Longer wavelengths → more space: 0.7 µm (F070W) → 25.5 µm (F2550W)
+    reverbMix: {
+      source: "wavelength",
+      in: [0.7, 25.5],
+      out: [0.25, 0.9],
+      inputScale: "log",
+      fallback: 0.55,
+    },
+    lfoRateHz: { source: "ra", in: [0, 360], out: [0.008, 0.078] },
+    harmonicCount: INSTRUMENT_HARMONICS,
+    density: TARGET_DENSITY,
+  },
+  signal: {},
+  visual: {
+    paletteMicrons: { source: "wavelength", fallback: 5 },
+    scene: CLASSIC_SCENE,
+  },
+};
+
+// Real filter wavelengths: short (hot, blue) light opens the filter, long
+// (cold dust) light darkens it and adds space
+export const SCIENTIFIC_PROFILE: MappingProfile = {
+  name: "scientific",
+  audio: {
+    filterCutoffHz: {
+      source: "wavelength",
+      in: [0.6, 28],
+      out: [3200, 220],
+      inputScale: "log",
+      outputScale: "log",
+      fallback: 900,
+    },
+    filterQ: BANDWIDTH_Q,
+    reverbMix: {
+      source: "wavelength",
+      in: [0.6, 28],
+      out: [0.3, 0.9],
+      inputScale: "log",
+      fallback: 0.55,
+    },
+    lfoRateHz: { source: "ra", in: [0, 360], out: [0.008, 0.078] },
+    harmonicCount: INSTRUMENT_HARMONICS,
+    density: TARGET_DENSITY,
+  },
+  signal: {},
+  visual: {
+    paletteMicrons: { source: "wavelength", fallback: 5 },
+    scene: CLASSIC_SCENE,
+  },
+};
+
+// A steady bed that barely reacts to the data
+export const MINIMAL_PROFILE: MappingProfile = {
+  name: "minimal",
+  audio: {
+    filterCutoffHz: { constant: 900 },
+    filterQ: { constant: 1.2 },
+    reverbMix: { constant: 0.6 },
+    lfoRateHz: { constant: 0.02 },
+    harmonicCount: { constant: 2 },
+    density: { constant: 0.6 },
+  },
+  signal: { byClass: false },
+  visual: {
+    paletteMicrons: { constant: 2 },
+    scene: { constant: "deep-field" },
+  },
+};
+
+export const BUILTIN_PROFILES: MappingProfile[] = [
+  CLASSIC_PROFILE,
+  SCIENTIFIC_PROFILE,
+  MINIMAL_PROFILE,
+];
+
+// ── User profiles (JSON) ──────────────────────────────────────────────────────
+// A user file only needs the parameters it changes; the rest come from
+// classic. Errors name the offending path, e.g. "audio.reverbMix: …".
+
+function fail(path: string, message: string): never {
+  throw new Error(`Mapping profile: ${path}: ${message}`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isPair(v: unknown): v is [number, number] {
+  return (
+    Array.isArray(v) &&
+    v.length === 2 &&
+    v.every((n) => typeof n === "number" && Number.isFinite(n))
+  );
+}
+
+function parseCategory<T>(
+  raw: Record<string, unknown>,
+  path: string,
+  checkValue: (v: unknown, path: string) => T,
+): CategoryMapping<T> {
+  if (!TEXT_SOURCES.includes(raw.source as TextSource)) {
+    fail(path, `category source must be one of ${TEXT_SOURCES.join(", ")}`);
+  }
+  if (!Array.isArray(raw.cases)) fail(path, "cases must be an array");
+  const cases = raw.cases.map((c, i) => {
+    const casePath = `${path}.cases[${i}]`;
+    if (
+      !isObject(c) ||
+      !Array.isArray(c.match) ||
+      !c.match.every((s) => typeof s === "string")
+    ) {
+      fail(casePath, "needs match: string[] and value");
+    }
+    return {
+      match: c.match as string[],
+      value: checkValue(c.value, `${casePath}.value`),
+    };
+  });
+  return {
+    source: raw.source as TextSource,
+    cases,
+    default: checkValue(raw.default, `${path}.default`),
+  };
+}
+
+function parseNumberMapping(raw: unknown, path: string): NumberMapping {
+  const checkNumber = (v: unknown, p: string): number => {
+    if (typeof v !== "number" || !Number.isFinite(v)) fail(p, "not a number");
+    return v;
+  };
+  if (!isObject(raw)) fail(path, "expected an object");
+  if ("constant" in raw) return { constant: checkNumber(raw.constant, path) };
+  if ("cases" in raw) return parseCategory(raw, path, checkNumber);
+
+  if (!NUMERIC_SOURCES.includes(raw.source as NumericSource)) {
+    fail(path, `range source must be one of ${NUMERIC_SOURCES.join(", ")}`);
+  }
+  const m: RangeMapping = { source: raw.source as NumericSource };
+  if (raw.in !== undefined || raw.out !== undefined) {
+    if (!isPair(raw.in) || !isPair(raw.out)) {
+      fail(path, "in and out must both be [number, number]");
+    }
+    m.in = raw.in;
+    m.out = raw.out;
+  }
+  for (const key of ["inputScale", "outputScale"] as const) {
+    const scale = raw[key];
+    if (scale === undefined) continue;
+    if (scale !== "linear" && scale !== "log") {
+      fail(`${path}.${key}`, 'must be "linear" or "log"');
+    }
+    m[key] = scale;
+  }
+  if (raw.fallback !== undefined) {
+    m.fallback = checkNumber(raw.fallback, `${path}.fallback`);
+  }
+  return m;
+}
+
+function parseValueMapping<T>(
+  raw: unknown,
+  path: string,
+  checkValue: (v: unknown, path: string) => T,
+): ValueMapping<T> {
+  if (!isObject(raw)) fail(path, "expected an object");
+  if ("constant" in raw) return { constant: checkValue(raw.constant, path) };
+  return parseCategory(raw, path, checkValue);
+}
+
+function checkTracks(v: unknown, path: string): string[] {
+  if (!Array.isArray(v) || !v.every((s) => typeof s === "string")) {
+    fail(path, "expected an array of track names");
+  }
+  return v;
+}
+
+function parseSignal(raw: Record<string, unknown>): MappingProfile["signal"] {
+  const signal: MappingProfile["signal"] = {};
+  if (raw.tracks !== undefined) {
+    signal.tracks = parseValueMapping(raw.tracks, "signal.tracks", checkTracks);
+  }
+  if (raw.byClass !== undefined) {
+    if (typeof raw.byClass !== "boolean") {
+      fail("signal.byClass", "expected true or false");
+    }
+    signal.byClass = raw.byClass;
+  }
+  return signal;
+}
+
+function checkScene(v: unknown, path: string): SceneKind {
+  if (!SCENE_KINDS.includes(v as SceneKind)) {
+    fail(path, `scene must be one of ${SCENE_KINDS.join(", ")}`);
+  }
+  return v as SceneKind;
+}
+
+export function parseMappingProfile(json: unknown): MappingProfile {
+  if (!isObject(json)) fail("(root)", "expected an object");
+  const base = CLASSIC_PROFILE;
+  const section = (key: string): Record<string, unknown> => {
+    const v = json[key];
+    if (v === undefined) return {};
+    if (!isObject(v)) fail(key, "expected an object");
+    return v;
+  };
+  const audio = section("audio");
+  const signal = section("signal");
+  const visual = section("visual");
+
+  const num = (
+    raw: Record<string, unknown>,
+    key: string,
+    path: string,
+    fallback: NumberMapping,
+  ) =>
+    raw[key] === undefined
+      ? fallback
+      : parseNumberMapping(raw[key], `${path}.${key}`);
+
+  return {
+    name:
+      typeof json.name === "string" && json.name.trim() !== ""
+        ? json.name.trim()
+        : "user",
+    audio: {
+      filterCutoffHz: num(
+        audio,
+        "filterCutoffHz",
+        "audio",
+        base.audio.filterCutoffHz,
+      ),
+      filterQ: num(audio, "filterQ", "audio", base.audio.filterQ),
+      reverbMix: num(audio, "reverbMix", "audio", base.audio.reverbMix),
+      lfoRateHz: num(audio, "lfoRateHz", "audio", base.audio.lfoRateHz),
+      harmonicCount: num(
+        audio,
+        "harmonicCount",
+        "audio",
+        base.audio.harmonicCount,
+      ),
+      density: num(audio, "density", "audio", base.audio.density),
+    },
+    signal: parseSignal(signal),
+    visual: {
+      paletteMicrons: num(
+        visual,
+        "paletteMicrons",
+        "visual",
+        base.visual.paletteMicrons,
+      ),
+      scene:
+        visual.scene === undefined
+          ? base.visual.scene
+          : parseValueMapping(visual.scene, "visual.scene", checkScene),
+    },
+  };
+}
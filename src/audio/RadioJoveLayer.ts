@@ -2,18 +2,21 @@
 // granular cloud + lowpass filter + convolution reverb chain, selected
 // and cross-faded automatically based on the live JWST observation.
 //
-// Sources (all bundled in public/audio/ — same-origin, no CORS):
-//   chorus.wav    — Earth magnetosphere plasma waves (Van Allen Probes / NASA GSFC Polar)
-//   m74-jwst.mp3  — M74 Phantom Galaxy JWST infrared sonification (Chandra / NASA)
-//   jellyfish.mp3 — IC 443 Jellyfish Nebula multi-wavelength sonification (Chandra + JWST)
-//   tycho.mp3     — Tycho's Supernova Remnant X-ray sonification (Chandra)
-//   m87.mp3       — M87 galaxy + black hole jet sonification (Chandra + JWST)
+// The bundled recordings, their credits, the object classes each suits, the
+// order they're preferred in per class and their loudness and loop points are
+// listed in public/audio/manifest.json (see TrackManifest.ts), loaded at
+// connect. Every bundled track is in the rotation, ordered for the
+// observation's TargetClassifier class by the manifest — after any a profile
+// loaded as JSON names for it (signal.tracks).
 //
-// Observation → track selection:
-//   galaxy / galaxy cluster → m74, m87, chorus, jellyfish, tycho
-//   nebula / supernova      → jellyfish, tycho, chorus, m74, m87
-//   star                    → tycho, chorus, m74, m87, jellyfish
-//   default / unknown       → all tracks
+// Tracks are decoded whole and loop from AudioBufferSourceNodes, the join
+// crossfaded (see TrackBuffer.ts); only files too large for that stream from
+// <audio> elements. Each is brought to TARGET_LUFS — by the manifest's
+// loudness, or else by measuring it once decoded, in a worker (Loudness.ts).
+//
+// Listener-added tracks (dropped files or URLs, see UserTrackStore) join the
+// rotation after those, for the object classes they suit — all of them when
+// none are set — each with its own gain trim.
 //
 // Within the active track set the layer performs a slow autonomous random walk —
 // every 30–90 s it picks a new active track and cross-fades to it over ~8 s.
@@ -26,39 +29,105 @@
 // shape the grain cloud + filter + reverb identically to AmbientEngine.
 
 import type { ObservationData } from "../data/JWSTFetcher";
+import { classifyTarget } from "../data/TargetClassifier";
+import { realtimeClock, type AudioClock } from "./AudioClock";
+import { mulberry32 } from "./SeededRandom";
+import {
+  CLASSIC_PROFILE,
+  evaluateValue,
+  type MappingProfile,
+} from "./MappingProfile";
+import {
+  loadTrackManifest,
+  type SignalTrack,
+  type TrackManifest,
+} from "./TrackManifest";
+import {
+  MAX_DECODE_BYTES,
+  MAX_DECODED_BYTES,
+  decodeTrack,
+  loopedBuffer,
+  measureLoudness,
+  type LoopedBuffer,
+} from "./TrackBuffer";
+
+// Decoded tracks for offline rendering, with their loudness in LUFS (null
+// when silent throughout)
+export type TrackBuffers = Partial<
+  Record<string, { buffer: AudioBuffer; lufs: number | null }>
+>;
+
+// Tracks are levelled to this loudness, by no more than MAX_MAKEUP_DB either
+// way so a near-silent recording isn't pushed into the noise floor
+const TARGET_LUFS = -23;
+const MAX_MAKEUP_DB = 12;
+
+// The manifest, or no tracks when it can't be loaded — the layer then only
+// has the listener's own
+async function bundledManifest(): Promise<TrackManifest> {
+  try {
+    return await loadTrackManifest();
+  } catch (err) {
+    console.warn("RadioJoveLayer: track manifest unavailable", err);
+    return { tracks: [], order: {} };
+  }
+}
+
+// Fetch + decode every track (bundled and `extra`) up front. Needed when
+// rendering offline, where HTMLAudioElement sources are unavailable. Tracks
+// that fail to load are left out and simply stay silent.
+export async function decodeTrackBuffers(
+  ctx: BaseAudioContext,
+  extra: readonly SignalTrack[] = [],
+): Promise<TrackBuffers> {
+  const buffers: TrackBuffers = {};
+  const tracks = [...(await bundledManifest()).tracks, ...extra];
+  // One at a time, as the live layer loads them
+  for (const track of tracks) {
+    try {
+      const buffer = await decodeTrack(ctx, track.url);
+      if (!buffer) continue;
+      const lufs = track.loudnessLufs ?? (await measureLoudness(buffer));
+      buffers[track.key] = { buffer, lufs };
+    } catch (err) {
+      console.warn(`RadioJoveLayer: could not decode ${track.url}`, err);
+    }
+  }
+  return buffers;
+}
 
-const TRACKS = {
-  chorus: "/audio/chorus.wav",
-  m74: "/audio/m74-jwst.mp3",
-  jellyfish: "/audio/jellyfish.mp3",
-  tycho: "/audio/tycho.mp3",
-  m87: "/audio/m87.mp3",
-} as const;
-
-type TrackKey = keyof typeof TRACKS;
-const ALL_TRACKS: TrackKey[] = ["chorus", "m74", "jellyfish", "tycho", "m87"];
-
-// Which tracks are active for a given observation
-function tracksForObservation(obs: ObservationData): TrackKey[] {
-  const type = obs.targetType.toLowerCase();
-  if (
-    type.includes("galaxy") ||
-    type.includes("cluster") ||
-    type.includes("quasar")
-  ) {
-    return ["m74", "m87", "chorus", "jellyfish", "tycho"];
-  }
-  if (
-    type.includes("nebula") ||
-    type.includes("supernova") ||
-    type.includes("remnant")
-  ) {
-    return ["jellyfish", "tycho", "chorus", "m74", "m87"];
-  }
-  if (type.includes("star") || type.includes("stellar")) {
-    return ["tycho", "chorus", "m74", "m87", "jellyfish"];
-  }
-  return ALL_TRACKS;
+// Which tracks are active for a given observation, preferred first: the
+// bundled ones a profile names for it (unknown names are skipped), then the
+// ones the manifest orders for the observation's class, then the rest of the
+// bundled tracks with those whose classes include it first — or, for a
+// profile with signal.byClass false, the rest in manifest order. Extra
+// tracks suited to the class follow.
+function tracksForObservation(
+  obs: ObservationData,
+  profile: MappingProfile,
+  manifest: TrackManifest,
+  extra: readonly SignalTrack[],
+): string[] {
+  const cls = classifyTarget(obs);
+  const bundled = manifest.tracks;
+  const named = profile.signal.tracks
+    ? evaluateValue(profile.signal.tracks, obs).filter((key) =>
+        bundled.some((t) => t.key === key),
+      )
+    : [];
+  const byClass =
+    profile.signal.byClass === false
+      ? bundled.map((t) => t.key)
+      : [
+          ...(manifest.order[cls] ?? []),
+          ...bundled.filter((t) => t.classes.includes(cls)).map((t) => t.key),
+          ...bundled.map((t) => t.key),
+        ];
+  const preferred = [...new Set([...named, ...byClass])];
+  const suited = extra
+    .filter((t) => t.classes.length === 0 || t.classes.includes(cls))
+    .map((t) => t.key);
+  return [...preferred, ...suited];
 }
 
 // Seeded pseudo-random — deterministic from RA so same position → same starting feel
@@ -71,9 +140,10 @@ function seededRand(seed: number): () => number {
 }
 
 function makeImpulseResponse(
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   duration: number,
   decay: number,
+  rand: () => number = Math.random,
 ): AudioBuffer {
   const sr = ctx.sampleRate;
   const length = Math.floor(sr * duration);
@@ -81,7 +151,7 @@ function makeImpulseResponse(
   for (let ch = 0; ch < 2; ch++) {
     const data = buf.getChannelData(ch);
     for (let i = 0; i < length; i++) {
-      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay);
+      data[i] = (rand() * 2 - 1) * Math.pow(1 - i / length, decay);
     }
   }
   return buf;
@@ -97,17 +167,18 @@ interface GrainLine {
 }
 
 function buildGrainCloud(
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   input: AudioNode,
   output: AudioNode,
+  rand: () => number = Math.random,
   count = 6,
 ): GrainLine[] {
   const lines: GrainLine[] = [];
   for (let i = 0; i < count; i++) {
-    const baseDelay = 0.04 + Math.random() * 0.18;
-    const modDepth = 0.008 + Math.random() * 0.022;
-    const modRate = 0.08 + Math.random() * 0.4;
-    const fbGain = 0.25 + Math.random() * 0.3;
+    const baseDelay = 0.04 + rand() * 0.18;
+    const modDepth = 0.008 + rand() * 0.022;
+    const modRate = 0.08 + rand() * 0.4;
+    const fbGain = 0.25 + rand() * 0.3;
 
     const delay = ctx.createDelay(0.5);
     delay.delayTime.value = baseDelay;
@@ -145,9 +216,28 @@ function buildGrainCloud(
 }
 
 export class RadioJoveLayer {
+  private clock: AudioClock;
+
   // One gain node per track — all always connected; only the active one is non-zero
-  private trackGains: Partial<Record<TrackKey, GainNode>> = {};
-  private trackEls: Partial<Record<TrackKey, HTMLAudioElement>> = {};
+  private trackGains: Partial<Record<string, GainNode>> = {};
+  // Decoded tracks, and the sources playing them once started
+  private trackBuffers: Partial<Record<string, LoopedBuffer>> = {};
+  private trackSources: Partial<Record<string, AudioBufferSourceNode>> = {};
+  // Streamed instead: tracks too large to hold decoded (see TrackBuffer.ts)
+  private trackEls: Partial<Record<string, HTMLAudioElement>> = {};
+  // Integrated LUFS, from the manifest or measured; null = unknown
+  private trackLoudness: Partial<Record<string, number | null>> = {};
+  private manifest: TrackManifest = { tracks: [], order: {} };
+  private extraTracks: SignalTrack[] = [];
+  private _playing = false;
+  private _tracksWired = false;
+  // Bumped by connect() and stop() so a manifest or track arriving late is ignored
+  private _connection = 0;
+  // Tracks load one after another, so only one decoded copy is being
+  // measured and looped at a time
+  private _loading: Promise<void> = Promise.resolve();
+  private _onTrack: ((track: SignalTrack | null) => void) | null = null;
+  private _shownTrack: SignalTrack | null = null;
 
   private grainInputGain: GainNode | null = null;
   private grainOutputGain: GainNode | null = null;
@@ -165,15 +255,44 @@ export class RadioJoveLayer {
 
   private _level = 0.0;
   private _ready = false;
-  private _activeTracks: TrackKey[] = ALL_TRACKS;
-  private _currentTrack: TrackKey = "chorus";
-  private _walkTimer: ReturnType<typeof setTimeout> | null = null;
+  private _activeTracks: string[] = [];
+  private _currentTrack = "";
+  private _observation: ObservationData | null = null;
+  private _walkTimer: number | null = null;
   private _rand: () => number = seededRand(42);
   private _scanMode = false;
   private _pulseAmount = 0.25;
-  private _evolveTimer: ReturnType<typeof setInterval> | null = null;
+  private _evolveTimer: number | null = null;
+  // Seeded mode: reverb, grain and evolution randomness (the track walk has its own stream)
+  private _seed: number | null = null;
+  private _textureRand: () => number = Math.random;
+  private _profile: MappingProfile = CLASSIC_PROFILE;
+
+  constructor(clock: AudioClock = realtimeClock) {
+    this.clock = clock;
+  }
+
+  // With `buffers` the tracks come already decoded, which lets the layer run in
+  // an OfflineAudioContext; otherwise each is fetched and decoded in the
+  // background and joins in when ready. The effect chain is up straight away;
+  // the tracks are wired once the manifest has loaded, which the returned
+  // promise waits for.
+  async connect(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    buffers?: TrackBuffers,
+  ): Promise<void> {
+    const connection = ++this._connection;
+    this.trackGains = {};
+    this.trackBuffers = {};
+    this.trackSources = {};
+    this.trackEls = {};
+    this.trackLoudness = {};
+    this._playing = false;
+    this._tracksWired = false;
+    this._textureRand =
+      this._seed === null ? Math.random : mulberry32(this._seed);
 
-  connect(ctx: AudioContext, destination: AudioNode): void {
     // Master output — starts silent
     this.masterGain = ctx.createGain();
     this.masterGain.gain.value = 0;
@@ -181,7 +300,12 @@ export class RadioJoveLayer {
 
     // Convolution reverb
     this.convolver = ctx.createConvolver();
-    this.convolver.buffer = makeImpulseResponse(ctx, 10.0, 1.4);
+    this.convolver.buffer = makeImpulseResponse(
+      ctx,
+      10.0,
+      1.4,
+      this._textureRand,
+    );
 
     this.reverbGain = ctx.createGain();
     this.reverbGain.gain.value = 1.0;
@@ -228,38 +352,45 @@ export class RadioJoveLayer {
       ctx,
       this.grainInputGain,
       this.grainOutputGain,
+      this._textureRand,
     );
     this.sourceLowpass.connect(this.grainInputGain);
     this.grainOutputGain.connect(this.reverbGain);
 
-    // All 5 tracks wired up, gains start at 0
-    for (const [key, url] of Object.entries(TRACKS) as [TrackKey, string][]) {
-      const el = new Audio();
-      el.loop = true;
-      el.preload = "none";
-      el.src = url;
-      this.trackEls[key] = el;
+    this._ready = true;
+    this._startEvolution();
 
-      const gain = ctx.createGain();
-      gain.gain.value = 0;
-      gain.connect(this.sourceLowpass!);
+    const manifest = await bundledManifest();
+    if (connection !== this._connection) return;
+    this.manifest = manifest;
 
-      const src = ctx.createMediaElementSource(el);
-      src.connect(gain);
-      this.trackGains[key] = gain;
+    // Every track wired up, gains start at 0
+    for (const track of [...manifest.tracks, ...this.extraTracks]) {
+      this._wireTrack(ctx, track, buffers);
     }
+    this._tracksWired = true;
+    this._currentTrack ||= manifest.tracks[0]?.key ?? "";
 
-    this._ready = true;
-    this._startEvolution();
+    if (this._observation) this.setObservation(this._observation);
+    this.setLevel(this._level);
   }
 
   // Called when a new JWST observation arrives
   setObservation(obs: ObservationData): void {
-    const newTracks = tracksForObservation(obs);
+    this._observation = obs;
+    const newTracks = tracksForObservation(
+      obs,
+      this._profile,
+      this.manifest,
+      this.extraTracks,
+    );
 
     // Reseed random walk from RA so different sky positions feel distinct
-    this._rand = seededRand(Math.floor(obs.ra * 100 + (obs.dec + 90) * 10));
+    this._rand = seededRand(
+      Math.floor(obs.ra * 100 + (obs.dec + 90) * 10) + (this._seed ?? 0),
+    );
     this._activeTracks = newTracks;
+    if (newTracks.length === 0) return;
 
     // Pick a starting track deterministically from the seed
     const startIdx = Math.floor(this._rand() * newTracks.length);
@@ -284,11 +415,12 @@ export class RadioJoveLayer {
     if (!this._ready || !this.masterGain || !this._scanMode) return;
     const tRA = Math.max(0, Math.min(1, ra / 360));
     const tDec = Math.max(0, Math.min(1, (dec + 90) / 180));
-    const idx = Math.min(
-      ALL_TRACKS.length - 1,
-      Math.floor(tRA * ALL_TRACKS.length),
+    const lanes = [...this.manifest.tracks, ...this.extraTracks].map(
+      (t) => t.key,
     );
-    const nextTrack = ALL_TRACKS[idx];
+    if (lanes.length === 0) return;
+    const idx = Math.min(lanes.length - 1, Math.floor(tRA * lanes.length));
+    const nextTrack = lanes[idx];
     if (nextTrack === this._currentTrack) return;
     const tc = 0.18 + (1 - tDec) * 0.35;
     this._crossfadeTo(nextTrack, tc);
@@ -300,14 +432,70 @@ export class RadioJoveLayer {
     this._scheduleNextWalk();
   }
 
+  // Tracks besides the bundled ones (see SignalTrack). Until connect() has
+  // wired the manifest's they wait to be wired with them; after, they are
+  // added and removed on the fly. The active
+  // set follows straight away, and a new trim on the playing track is heard.
+  setExtraTracks(tracks: readonly SignalTrack[]): void {
+    const keep = new Set(tracks.map((t) => t.key));
+    const had = new Set(this.extraTracks.map((t) => t.key));
+    for (const key of had) if (!keep.has(key)) this._unwireTrack(key);
+    this.extraTracks = [...tracks];
+
+    if (!this.masterGain || !this._tracksWired) return;
+    const ctx = this.masterGain.context;
+    for (const track of tracks) {
+      if (!had.has(track.key)) this._wireTrack(ctx, track);
+    }
+    if (this._observation) {
+      this._activeTracks = tracksForObservation(
+        this._observation,
+        this._profile,
+        this.manifest,
+        this.extraTracks,
+      );
+    }
+    if (!this.trackGains[this._currentTrack]) {
+      if (this._activeTracks.length > 0) {
+        this._crossfadeTo(this._activeTracks[0]);
+      }
+    } else if (this._playing) {
+      this.trackGains[this._currentTrack]!.gain.setTargetAtTime(
+        this._trackLevel(this._currentTrack),
+        ctx.currentTime,
+        0.3,
+      );
+    }
+  }
+
+  // Called with the track being heard whenever it changes — null while the
+  // layer is silent — so its title and credit can be shown
+  setTrackListener(listener: (track: SignalTrack | null) => void): void {
+    this._onTrack = listener;
+    this._shownTrack = null;
+    this._emitTrack();
+  }
+
+  // Track selection profile; heard from the next setObservation
+  setProfile(profile: MappingProfile): void {
+    this._profile = profile;
+  }
+
+  // Seed for the texture randomness; applies fully from the next connect()
+  setSeed(seed: number | null): void {
+    this._seed = seed;
+    this._textureRand = seed === null ? Math.random : mulberry32(seed);
+  }
+
   // level 0–1: overall blend into the soundscape
   setLevel(level: number): void {
     this._level = Math.max(0, Math.min(1, level));
-    if (!this.masterGain || !this._ready) return;
+    this._emitTrack();
+    if (!this.masterGain || !this._tracksWired) return;
 
     const now = this.masterGain.context.currentTime;
 
-    if (this._level > 0 && !this._anyPlaying()) {
+    if (this._level > 0 && !this._playing) {
       this._startAll(now);
     }
 
@@ -379,13 +567,24 @@ export class RadioJoveLayer {
   }
 
   stop(): void {
+    this._connection++;
     this._scanMode = false;
     if (this._evolveTimer !== null) {
-      clearInterval(this._evolveTimer);
+      this.clock.clear(this._evolveTimer);
       this._evolveTimer = null;
     }
     this._clearWalkTimer();
+    this._playing = false;
+    this._tracksWired = false;
     for (const el of Object.values(this.trackEls)) el?.pause();
+    for (const src of Object.values(this.trackSources)) {
+      try {
+        src?.stop();
+      } catch {
+        /* already stopped */
+      }
+    }
+    this.trackSources = {};
     if (this.masterGain) {
       this.masterGain.gain.setTargetAtTime(
         0,
@@ -405,11 +604,165 @@ export class RadioJoveLayer {
         /* already stopped */
       }
     });
+    if (this._shownTrack) {
+      this._shownTrack = null;
+      this._onTrack?.(null);
+    }
   }
 
   // ── Private ───────────────────────────────────────────────────────────────
 
-  private _crossfadeTo(next: TrackKey, tc = 0.8): void {
+  private _wireTrack(
+    ctx: BaseAudioContext,
+    track: SignalTrack,
+    buffers?: TrackBuffers,
+  ): void {
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    gain.connect(this.sourceLowpass!);
+    this.trackGains[track.key] = gain;
+
+    if (buffers) {
+      const decoded = buffers[track.key];
+      if (decoded) this._attachBuffer(track, decoded.buffer, decoded.lufs);
+      return;
+    }
+    if (ctx instanceof AudioContext) {
+      const connection = this._connection;
+      // A track that fails mustn't hold up the ones queued behind it
+      this._loading = this._loading
+        .then(() => this._loadTrack(ctx, track, gain, connection))
+        .catch((err) => {
+          console.warn(`RadioJoveLayer: could not load ${track.url}`, err);
+        });
+    }
+  }
+
+  private async _loadTrack(
+    ctx: AudioContext,
+    track: SignalTrack,
+    gain: GainNode,
+    connection: number,
+  ): Promise<void> {
+    // Unwired, stopped or reconnected while it waited or loaded
+    const gone = () =>
+      connection !== this._connection || this.trackGains[track.key] !== gain;
+    if (gone()) return;
+    let buffer: AudioBuffer | null;
+    let lufs: number | null = null;
+    try {
+      buffer = await decodeTrack(ctx, track.url, {
+        maxBytes: MAX_DECODE_BYTES,
+        maxDecodedBytes: MAX_DECODED_BYTES,
+      });
+      if (buffer) lufs = track.loudnessLufs ?? (await measureLoudness(buffer));
+    } catch (err) {
+      console.warn(`RadioJoveLayer: could not decode ${track.url}`, err);
+      return;
+    }
+    if (gone()) return;
+    // Measured above on the decoded buffer alone; the looped copy comes after
+    if (buffer) this._attachBuffer(track, buffer, lufs);
+    else this._attachElement(ctx, track);
+  }
+
+  private _attachBuffer(
+    track: SignalTrack,
+    buffer: AudioBuffer,
+    lufs: number | null,
+  ): void {
+    const gain = this.trackGains[track.key]!;
+    this.trackLoudness[track.key] = lufs;
+    this.trackBuffers[track.key] = loopedBuffer(
+      gain.context,
+      buffer,
+      track.loop,
+    );
+    if (!this._playing) return;
+    const now = gain.context.currentTime;
+    this._startTrack(track.key, now);
+    // Its level may have moved with the measurement
+    if (track.key === this._currentTrack) {
+      gain.gain.setTargetAtTime(this._trackLevel(track.key), now, 0.3);
+    }
+  }
+
+  private _attachElement(ctx: AudioContext, track: SignalTrack): void {
+    const el = new Audio();
+    // Remote tracks are silent through Web Audio without CORS
+    el.crossOrigin = "anonymous";
+    el.loop = true;
+    el.preload = "none";
+    el.src = track.url;
+    this.trackEls[track.key] = el;
+    ctx.createMediaElementSource(el).connect(this.trackGains[track.key]!);
+    if (this._playing) el.play().catch(() => {});
+  }
+
+  private _startTrack(key: string, when: number): void {
+    const looped = this.trackBuffers[key];
+    const gain = this.trackGains[key];
+    if (looped && gain && !this.trackSources[key]) {
+      const src = gain.context.createBufferSource();
+      src.buffer = looped.buffer;
+      src.loop = true;
+      src.loopStart = looped.loopStart;
+      src.connect(gain);
+      src.start(when);
+      this.trackSources[key] = src;
+    }
+    this.trackEls[key]?.play().catch(() => {});
+  }
+
+  private _unwireTrack(key: string): void {
+    const el = this.trackEls[key];
+    if (el) {
+      el.pause();
+      el.removeAttribute("src");
+      el.load();
+    }
+    try {
+      this.trackSources[key]?.stop();
+    } catch {
+      /* already stopped */
+    }
+    this.trackGains[key]?.disconnect();
+    delete this.trackEls[key];
+    delete this.trackGains[key];
+    delete this.trackBuffers[key];
+    delete this.trackSources[key];
+    delete this.trackLoudness[key];
+  }
+
+  private _track(key: string): SignalTrack | undefined {
+    return (
+      this.manifest.tracks.find((t) => t.key === key) ??
+      this.extraTracks.find((t) => t.key === key)
+    );
+  }
+
+  // Linear gain for a track at full blend — its trim, plus the makeup that
+  // brings its loudness to TARGET_LUFS when that is known
+  private _trackLevel(key: string): number {
+    const track = this._track(key);
+    if (!track) return 1;
+    const lufs = this.trackLoudness[key] ?? track.loudnessLufs;
+    const makeup =
+      lufs === null
+        ? 0
+        : Math.max(-MAX_MAKEUP_DB, Math.min(MAX_MAKEUP_DB, TARGET_LUFS - lufs));
+    return Math.pow(10, (track.gainDb + makeup) / 20);
+  }
+
+  private _emitTrack(): void {
+    const track =
+      this._level > 0 ? (this._track(this._currentTrack) ?? null) : null;
+    if (track === this._shownTrack) return;
+    this._shownTrack = track;
+    this._onTrack?.(track);
+  }
+
+  private _crossfadeTo(next: string, tc = 0.8): void {
     if (!this.masterGain) return;
     const ctx = this.masterGain.context;
     const now = ctx.currentTime;
@@ -420,9 +773,10 @@ export class RadioJoveLayer {
 
     // Fade in next
     const inGain = this.trackGains[next];
-    inGain?.gain.setTargetAtTime(1, now, tc);
+    inGain?.gain.setTargetAtTime(this._trackLevel(next), now, tc);
 
     this._currentTrack = next;
+    this._emitTrack();
   }
 
   private _scheduleNextWalk(): void {
@@ -430,7 +784,7 @@ export class RadioJoveLayer {
     this._clearWalkTimer();
     // Walk interval: 30–90 s, seeded so it varies per observation
     const delay = (30 + this._rand() * 60) * 1000;
-    this._walkTimer = setTimeout(() => this._doWalkStep(), delay);
+    this._walkTimer = this.clock.setTimeout(() => this._doWalkStep(), delay);
   }
 
   private _doWalkStep(): void {
@@ -446,23 +800,19 @@ export class RadioJoveLayer {
 
   private _clearWalkTimer(): void {
     if (this._walkTimer !== null) {
-      clearTimeout(this._walkTimer);
+      this.clock.clear(this._walkTimer);
       this._walkTimer = null;
     }
   }
 
-  private _anyPlaying(): boolean {
-    return Object.values(this.trackEls).some((el) => el && !el.paused);
-  }
-
   private _startAll(now: number): void {
-    // Start all tracks playing (they're all silenced by gain=0 except active one)
-    for (const el of Object.values(this.trackEls)) {
-      el?.play().catch(() => {});
-    }
+    // Start all tracks playing (they're all silenced by gain=0 except active
+    // one); those still loading start when they arrive
+    this._playing = true;
+    for (const key of Object.keys(this.trackGains)) this._startTrack(key, now);
     // Set active track gain to 1
     const g = this.trackGains[this._currentTrack];
-    g?.gain.setTargetAtTime(1, now, 0.3);
+    g?.gain.setTargetAtTime(this._trackLevel(this._currentTrack), now, 0.3);
     // Bloom grain cloud in
     this.grainLines.forEach((g, i) => {
       g.outputGain.gain.linearRampToValueAtTime(0.6, now + 2.0 + i * 0.1);
@@ -473,7 +823,7 @@ export class RadioJoveLayer {
 
   private _startEvolution(): void {
     if (this._evolveTimer || !this.masterGain) return;
-    this._evolveTimer = setInterval(() => {
+    this._evolveTimer = this.clock.setInterval(() => {
       if (!this.masterGain || !this._ready) return;
       const now = this.masterGain.context.currentTime;
       const e = 0.15 + this._pulseAmount * 0.85;
@@ -484,7 +834,7 @@ export class RadioJoveLayer {
           260,
           Math.min(
             22000,
-            baseCutoff * (1 + (Math.random() * 2 - 1) * (0.1 + e * 0.45)),
+            baseCutoff * (1 + (this._textureRand() * 2 - 1) * (0.1 + e * 0.45)),
           ),
         );
         this.sourceLowpass.frequency.setTargetAtTime(nextCutoff, now, 2.8);
@@ -494,7 +844,7 @@ export class RadioJoveLayer {
             Math.min(
               2.0,
               this.sourceLowpass.Q.value +
-                (Math.random() * 2 - 1) * (0.12 + e * 0.5),
+                (this._textureRand() * 2 - 1) * (0.12 + e * 0.5),
             ),
           ),
           now,
@@ -509,7 +859,7 @@ export class RadioJoveLayer {
             Math.min(
               2.2,
               this.reverbGain.gain.value +
-                (Math.random() * 2 - 1) * (0.05 + e * 0.25),
+                (this._textureRand() * 2 - 1) * (0.05 + e * 0.25),
             ),
           ),
           now,
@@ -521,7 +871,7 @@ export class RadioJoveLayer {
             Math.min(
               0.45,
               this.dryGain.gain.value +
-                (Math.random() * 2 - 1) * (0.02 + e * 0.08),
+                (this._textureRand() * 2 - 1) * (0.02 + e * 0.08),
             ),
           ),
           now,
@@ -530,14 +880,14 @@ export class RadioJoveLayer {
       }
 
       this.grainLines.forEach((g) => {
-        const nextRate = 0.04 + Math.random() * (0.14 + e * 0.32);
+        const nextRate = 0.04 + this._textureRand() * (0.14 + e * 0.32);
         g.modOsc.frequency.setTargetAtTime(nextRate, now, 3.5);
         const nextDepth = Math.max(
           0.003,
           Math.min(
             0.06,
             g.modGain.gain.value +
-              (Math.random() * 2 - 1) * (0.002 + e * 0.012),
+              (this._textureRand() * 2 - 1) * (0.002 + e * 0.012),
           ),
         );
         g.modGain.gain.setTargetAtTime(nextDepth, now, 3.5);
@@ -545,7 +895,8 @@ export class RadioJoveLayer {
           0.05,
           Math.min(
             0.9,
-            g.feedback.gain.value + (Math.random() * 2 - 1) * (0.03 + e * 0.1),
+            g.feedback.gain.value +
+              (this._textureRand() * 2 - 1) * (0.03 + e * 0.1),
           ),
         );
         g.feedback.gain.setTargetAtTime(nextFb, now, 3.2);
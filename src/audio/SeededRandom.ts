@@ -0,0 +1,48 @@
+import type { ObservationData } from "../data/JWSTFetcher";
+
+// Deterministic pseudo-random number generator (mulberry32) — the one
+// generator behind the audio's seeded mode and the SpaceRenderer and
+// GenerativeBackground scenes.
+export function mulberry32(seed: number): () => number {
+  return function () {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 32-bit FNV-1a
+function hashSeedString(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// A given sky target always maps to the same seed, so it reproduces the
+// same soundscape. Coordinates are rounded so tiny MAST jitter doesn't
+// change the seed.
+export function seedFromObservation(obs: ObservationData): number {
+  return hashSeedString(
+    [
+      obs.targetName.trim().toLowerCase(),
+      obs.instrument.toLowerCase(),
+      obs.filter.toLowerCase(),
+      obs.ra.toFixed(2),
+      obs.dec.toFixed(2),
+    ].join("|"),
+  );
+}
+
+// User-entered seed: plain integers are used as-is, any other text is
+// hashed. Blank means unseeded (Math.random).
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  return hashSeedString(trimmed);
+}
@@ -0,0 +1,84 @@
+// SessionExporter — renders a fixed-length take of the full audio graph
+// (AmbientEngine + RadioJoveLayer) into an OfflineAudioContext, faster than
+// real time, for export as a WAV stem.
+//
+// The graph is set up in the same order as live playback in main.ts so an
+// export sounds like what you'd hear after pressing START with the same
+// observation, chord, zoom and knob positions.
+
+import type { ObservationData } from "../data/JWSTFetcher";
+import type { MappingProfile } from "./MappingProfile";
+import { AmbientEngine } from "./AmbientEngine";
+import { RadioJoveLayer, decodeTrackBuffers } from "./RadioJoveLayer";
+import type { SignalTrack } from "./TrackManifest";
+import { OfflineClock } from "./AudioClock";
+import { encodeWav24 } from "./WavEncoder";
+
+export interface SessionSettings {
+  observation: ObservationData;
+  chordRoot: number; // semitones above A1
+  chordMode: string;
+  zoomNorm: number; // 0 = zoomed in, 1 = zoomed out (see AmbientEngine.setZoom)
+  // Knob values, 0–1
+  volume: number;
+  space: number;
+  colour: number;
+  scatter: number;
+  pulse: number;
+  signalLevel: number; // already tapered, as passed to RadioJoveLayer.setLevel
+  seed: number | null; // null = unseeded; a seed makes the render reproducible
+  profile: MappingProfile;
+  extraTracks: SignalTrack[]; // listener-added signal tracks, as playing live
+}
+
+export const EXPORT_SAMPLE_RATE = 48_000;
+
+export async function renderSession(
+  settings: SessionSettings,
+  durationS: number,
+  sampleRate = EXPORT_SAMPLE_RATE,
+): Promise<AudioBuffer> {
+  const ctx = new OfflineAudioContext(
+    2,
+    Math.ceil(durationS * sampleRate),
+    sampleRate,
+  );
+  const clock = new OfflineClock(ctx);
+  const buffers = await decodeTrackBuffers(ctx, settings.extraTracks);
+
+  const engine = new AmbientEngine(clock);
+  engine.setSeed(settings.seed);
+  engine.setProfile(settings.profile);
+  engine.setChord(settings.chordRoot, settings.chordMode);
+  engine.setZoom(settings.zoomNorm);
+  engine.setSpace(settings.space);
+  engine.setColour(settings.colour);
+  engine.setScatter(settings.scatter);
+  engine.setPulse(settings.pulse);
+  engine.setVolume(settings.volume);
+  engine.start(ctx);
+
+  const signalLayer = new RadioJoveLayer(clock);
+  signalLayer.setSeed(settings.seed);
+  signalLayer.setProfile(settings.profile);
+  signalLayer.setExtraTracks(settings.extraTracks);
+  await signalLayer.connect(ctx, ctx.destination, buffers);
+  signalLayer.setSpace(settings.space);
+  signalLayer.setColour(settings.colour);
+  signalLayer.setScatter(settings.scatter);
+  signalLayer.setPulse(settings.pulse);
+  signalLayer.setLevel(settings.signalLevel);
+  signalLayer.setObservation(settings.observation);
+
+  engine.updateFromData(settings.observation);
+
+  return ctx.startRendering();
+}
+
+export async function exportSessionWav(
+  settings: SessionSettings,
+  durationS: number,
+): Promise<Blob> {
+  const rendered = await renderSession(settings, durationS);
+  return encodeWav24(rendered);
+}
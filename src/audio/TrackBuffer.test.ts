@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { loopedBuffer } from "./TrackBuffer";
+
+// ── Fake Web Audio ────────────────────────────────────────────────────────────
+// loopedBuffer only needs createBuffer and an AudioBuffer's channel data
+
+const SR = 1000;
+
+function fakeBuffer(channels: Float32Array[], sampleRate = SR): AudioBuffer {
+  return {
+    numberOfChannels: channels.length,
+    length: channels[0].length,
+    sampleRate,
+    duration: channels[0].length / sampleRate,
+    getChannelData: (ch: number) => channels[ch],
+  } as unknown as AudioBuffer;
+}
+
+const ctx = {
+  createBuffer: (channels: number, length: number, sampleRate: number) =>
+    fakeBuffer(
+      Array.from({ length: channels }, () => new Float32Array(length)),
+      sampleRate,
+    ),
+} as unknown as BaseAudioContext;
+
+// A slow sine whose period doesn't divide the track, so cutting the loop
+// without a crossfade would jump
+function sine(seconds: number, hz = 3): AudioBuffer {
+  const data = Float32Array.from({ length: Math.round(seconds * SR) }, (_, i) =>
+    Math.sin(2 * Math.PI * hz * (i / SR)),
+  );
+  return fakeBuffer([data, data.map((x) => -x)]);
+}
+
+// What an AudioBufferSourceNode with loop = true plays: the whole buffer
+// once, then from loopStart to the end, `passes` more times
+function played(
+  looped: ReturnType<typeof loopedBuffer>,
+  ch: number,
+  passes = 2,
+) {
+  const data = looped.buffer.getChannelData(ch);
+  const from = Math.round(looped.loopStart * looped.buffer.sampleRate);
+  const out = [...data];
+  for (let p = 0; p < passes; p++) out.push(...data.subarray(from));
+  return out;
+}
+
+function largestStep(samples: number[]): number {
+  let max = 0;
+  for (let i = 1; i < samples.length; i++) {
+    max = Math.max(max, Math.abs(samples[i] - samples[i - 1]));
+  }
+  return max;
+}
+
+// The sine's own largest sample-to-sample step, with room for the fade
+const SMOOTH = (2 * (2 * Math.PI * 3)) / SR;
+
+// ── loopedBuffer ──────────────────────────────────────────────────────────────
+
+describe("loopedBuffer", () => {
+  it("joins a loop from the start without a jump", () => {
+    const source = sine(2.3);
+    const looped = loopedBuffer(ctx, source, { start: 0, end: null });
+
+    expect(looped.loopStart).toBe(0);
+    expect(looped.buffer.length).toBeLessThan(source.length);
+    for (const ch of [0, 1]) {
+      expect(largestStep(played(looped, ch))).toBeLessThan(SMOOTH);
+    }
+  });
+
+  it("joins a loop after an intro without a jump, and plays the intro once", () => {
+    const source = sine(2.3);
+    const looped = loopedBuffer(ctx, source, { start: 0.7, end: null });
+
+    expect(looped.loopStart).toBeCloseTo(0.7);
+    for (const ch of [0, 1]) {
+      expect(largestStep(played(looped, ch))).toBeLessThan(SMOOTH);
+      expect(looped.buffer.getChannelData(ch).subarray(0, 700)).toEqual(
+        source.getChannelData(ch).subarray(0, 700),
+      );
+    }
+  });
+
+  it("joins a loop that ends before the end of the file", () => {
+    const source = sine(3);
+    const looped = loopedBuffer(ctx, source, { start: 0.5, end: 2.2 });
+
+    expect(looped.buffer.length).toBe(2200);
+    expect(largestStep(played(looped, 0))).toBeLessThan(SMOOTH);
+  });
+
+  it("sees the jump in the same sine looped without a crossfade", () => {
+    const raw = sine(2.3).getChannelData(0);
+    expect(largestStep([...raw, ...raw])).toBeGreaterThan(SMOOTH);
+  });
+});
@@ -0,0 +1,131 @@
+// TrackBuffer — SIGNAL tracks decoded whole into AudioBuffers, prepared to
+// loop without a seam, and measured for levelling.
+//
+// An <audio> element with loop = true gaps or clicks at the wrap (MP3 encoder
+// padding, and the restart itself), so RadioJoveLayer plays decoded tracks
+// from AudioBufferSourceNodes, whose loops are sample-accurate. The join is
+// baked into the buffer once: the audio either side of the loop point is
+// equal-power crossfaded over LOOP_CROSSFADE_S, so the native loop runs
+// straight on from the end of the loop into its start. Tracks too large to
+// hold decoded (MAX_DECODE_BYTES, MAX_DECODED_BYTES) stay streamed, looping
+// the whole file.
+
+import { addEnergy, gatedLoudness, integratedLoudness } from "./Loudness";
+
+// Files larger than this aren't fetched whole: decoded audio takes ~25× the
+// space of a 128 kbps MP3, so an 8 MB file (about eight minutes) would come
+// to ~200 MB
+export const MAX_DECODE_BYTES = 8 * 1024 * 1024;
+// What's actually kept is decided by the decoded size — a low-bitrate or
+// lossless file says little about it. 96 MB is about four and a half minutes
+// of 44.1 kHz stereo, and the looped copy and measurement add to it briefly.
+export const MAX_DECODED_BYTES = 96 * 1024 * 1024;
+
+const LOOP_CROSSFADE_S = 0.5;
+
+export interface LoopedBuffer {
+  buffer: AudioBuffer;
+  loopStart: number; // seconds; the loop runs to the end of the buffer
+}
+
+// The track decoded, or null when the file is larger than `limits.maxBytes`
+// or its samples than `limits.maxDecodedBytes`, and it should be streamed
+// instead. Throws when it can't be fetched or decoded.
+export async function decodeTrack(
+  ctx: BaseAudioContext,
+  url: string,
+  limits: { maxBytes?: number; maxDecodedBytes?: number } = {},
+): Promise<AudioBuffer | null> {
+  const { maxBytes = Infinity, maxDecodedBytes = Infinity } = limits;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  if (Number(res.headers.get("Content-Length") ?? 0) > maxBytes) {
+    await res.body?.cancel();
+    return null;
+  }
+  const data = await res.arrayBuffer();
+  if (data.byteLength > maxBytes) return null;
+  const buffer = await ctx.decodeAudioData(data);
+  // Float32 samples; dropped here, before anything copies them
+  const decodedBytes = buffer.length * buffer.numberOfChannels * 4;
+  return decodedBytes > maxDecodedBytes ? null : buffer;
+}
+
+// `buffer` cut to its loop (seconds; end null = end of file) with the join
+// crossfaded. With the loop starting at 0 the crossfade opens the buffer —
+// the tail fading out under the head — so the first pass starts a moment
+// before the loop end; otherwise it closes the buffer, fading from the tail
+// to the audio just before the loop start, and any intro plays once.
+export function loopedBuffer(
+  ctx: BaseAudioContext,
+  buffer: AudioBuffer,
+  loop: { start: number; end: number | null },
+): LoopedBuffer {
+  const sr = buffer.sampleRate;
+  const start = Math.min(Math.round(loop.start * sr), buffer.length - 1);
+  const end =
+    loop.end === null
+      ? buffer.length
+      : Math.max(start + 1, Math.min(Math.round(loop.end * sr), buffer.length));
+  let fade = Math.min(
+    Math.round(LOOP_CROSSFADE_S * sr),
+    Math.floor((end - start) / 4),
+  );
+  if (start > 0) fade = Math.min(fade, start);
+  if (fade < 2 && end === buffer.length)
+    return { buffer, loopStart: start / sr };
+
+  const headFirst = start === 0;
+  const length = headFirst ? end - fade : end;
+  const out = ctx.createBuffer(buffer.numberOfChannels, length, sr);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const src = buffer.getChannelData(ch);
+    const dst = out.getChannelData(ch);
+    // Where the faded-in audio comes from, and where the mix is written
+    const inFrom = headFirst ? 0 : start - fade;
+    const at = headFirst ? 0 : end - fade;
+    if (headFirst) dst.set(src.subarray(fade, end - fade), fade);
+    else dst.set(src.subarray(0, end - fade));
+    for (let i = 0; i < fade; i++) {
+      const theta = ((i + 0.5) / fade) * (Math.PI / 2);
+      dst[at + i] =
+        src[end - fade + i] * Math.cos(theta) +
+        src[inFrom + i] * Math.sin(theta);
+    }
+  }
+  return { buffer: out, loopStart: start / sr };
+}
+
+// Integrated loudness (Loudness.ts) of a decoded track, measured in a worker:
+// minutes of audio through the K-weighting filters would stall the page. The
+// worker is sent a copy of one channel at a time, so the extra memory stays
+// at a channel's worth. Where it can't run, the measurement happens here.
+export async function measureLoudness(
+  buffer: AudioBuffer,
+): Promise<number | null> {
+  if (typeof Worker === "undefined") return integratedLoudness(buffer);
+  const worker = new Worker(new URL("./LoudnessWorker.ts", import.meta.url), {
+    type: "module",
+  });
+  const energyOf = (data: Float32Array) =>
+    new Promise<Float64Array>((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent<Float64Array>) => resolve(e.data);
+      worker.onerror = (e) => reject(new Error(e.message));
+      worker.postMessage({ sampleRate: buffer.sampleRate, data }, [
+        data.buffer,
+      ]);
+    });
+  try {
+    let energy: Float64Array = new Float64Array(0);
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+      const channel = await energyOf(buffer.getChannelData(ch).slice());
+      energy = addEnergy(energy, channel);
+    }
+    return gatedLoudness(energy, buffer.sampleRate);
+  } catch (err) {
+    console.warn("TrackBuffer: loudness worker failed, measuring here", err);
+    return integratedLoudness(buffer);
+  } finally {
+    worker.terminate();
+  }
+}
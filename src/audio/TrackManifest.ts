@@ -0,0 +1,181 @@
+// TrackManifest — the bundled SIGNAL tracks, described in
+// public/audio/manifest.json instead of code, so recordings can be added,
+// credited and retuned without a rebuild. RadioJoveLayer loads it at connect.
+//
+//   {
+//     "version": 1,
+//     "tracks": [{
+//       "id": "m74",                          // what profiles name it by
+//       "url": "/audio/m74-jwst.mp3",         // relative to the manifest
+//       "title": "M74 Phantom Galaxy infrared sonification",
+//       "credit": "Chandra / NASA",           // shown in the info overlay
+//       "classes": ["galaxy", "agn"],         // object classes it suits best
+//       "loudnessLufs": -23.5,                // integrated; null = measured at load
+//       "loop": { "start": 0, "end": null }   // seconds; null = end of file
+//     }],
+//     "order": [{                             // optional, hand-tuned
+//       "classes": ["agn"],                   // for these object classes,
+//       "tracks": ["m87", "m74"]              // these tracks first, in order
+//     }]
+//   }
+//
+// Classes are TargetClassifier's; every bundled track stays in the rotation.
+// For an observation, the tracks its class's `order` entry names come first,
+// then the others whose `classes` include it, then the rest in manifest order.
+
+import { OBJECT_CLASSES } from "../data/TargetClassifier";
+
+// A track in the SIGNAL rotation — bundled (from the manifest) or added by
+// the listener (see UserTrackStore)
+export interface SignalTrack {
+  key: string; // unique across both
+  url: string;
+  title: string;
+  credit: string | null;
+  classes: readonly string[]; // object classes it suits
+  gainDb: number; // trim
+  loudnessLufs: number | null;
+  loop: { start: number; end: number | null }; // seconds
+}
+
+export interface TrackManifest {
+  tracks: SignalTrack[];
+  // Object class → track ids preferred for it, first to last
+  order: Partial<Record<string, string[]>>;
+}
+
+export const TRACK_MANIFEST_URL = "/audio/manifest.json";
+const MANIFEST_VERSION = 1;
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+function fail(path: string, message: string): never {
+  throw new Error(`Track manifest: ${path}: ${message}`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function str(o: Record<string, unknown>, key: string, path: string): string {
+  const v = o[key];
+  if (typeof v !== "string" || v.trim() === "") {
+    fail(`${path}.${key}`, "expected a non-empty string");
+  }
+  return v;
+}
+
+function optNum(
+  v: unknown,
+  path: string,
+  min: number,
+  max: number,
+): number | null {
+  if (v === null || v === undefined) return null;
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    fail(path, "expected a number or null");
+  }
+  if (v < min || v > max) fail(path, `must be ${min}–${max}`);
+  return v;
+}
+
+function parseClasses(v: unknown, path: string): string[] {
+  if (v === undefined) return [];
+  if (!Array.isArray(v)) fail(path, "expected an array of object classes");
+  return v.map((c, i) => {
+    if (!(OBJECT_CLASSES as readonly unknown[]).includes(c)) {
+      fail(`${path}[${i}]`, `must be one of ${OBJECT_CLASSES.join(", ")}`);
+    }
+    return c as string;
+  });
+}
+
+function parseLoop(v: unknown, path: string): SignalTrack["loop"] {
+  if (v === undefined || v === null) return { start: 0, end: null };
+  if (!isObject(v)) fail(path, "expected { start, end }");
+  const start = optNum(v.start, `${path}.start`, 0, Infinity) ?? 0;
+  const end = optNum(v.end, `${path}.end`, 0, Infinity);
+  if (end !== null && end <= start) fail(`${path}.end`, "must be after start");
+  return { start, end };
+}
+
+function parseTrack(raw: unknown, path: string, base: string): SignalTrack {
+  if (!isObject(raw)) fail(path, "expected an object");
+  const url = str(raw, "url", path);
+  const credit = raw.credit === null ? null : str(raw, "credit", path);
+  return {
+    key: str(raw, "id", path),
+    url: new URL(url, base).href,
+    title: str(raw, "title", path),
+    credit,
+    classes: parseClasses(raw.classes, `${path}.classes`),
+    gainDb: 0,
+    loudnessLufs: optNum(raw.loudnessLufs, `${path}.loudnessLufs`, -70, 0),
+    loop: parseLoop(raw.loop, `${path}.loop`),
+  };
+}
+
+function parseOrder(
+  v: unknown,
+  ids: readonly string[],
+): TrackManifest["order"] {
+  if (v === undefined) return {};
+  if (!Array.isArray(v)) fail("order", "expected an array");
+  const order: TrackManifest["order"] = {};
+  v.forEach((entry, i) => {
+    const path = `order[${i}]`;
+    if (!isObject(entry)) fail(path, "expected { classes, tracks }");
+    if (!Array.isArray(entry.tracks)) {
+      fail(`${path}.tracks`, "expected an array of track ids");
+    }
+    const tracks = entry.tracks.map((id, j) => {
+      if (typeof id !== "string" || !ids.includes(id)) {
+        fail(`${path}.tracks[${j}]`, "expected the id of a track above");
+      }
+      return id;
+    });
+    for (const cls of parseClasses(entry.classes, `${path}.classes`)) {
+      if (order[cls]) fail(`${path}.classes`, `"${cls}" is already ordered`);
+      order[cls] = tracks;
+    }
+  });
+  return order;
+}
+
+// The manifest's tracks in order and its per-class orderings, or an Error
+// naming the first bad field. base: the manifest's own URL, which track URLs
+// are relative to.
+export function parseTrackManifest(json: unknown, base: string): TrackManifest {
+  if (!isObject(json)) fail("(root)", "expected an object");
+  if (json.version !== MANIFEST_VERSION) {
+    fail("version", `expected ${MANIFEST_VERSION}`);
+  }
+  if (!Array.isArray(json.tracks)) fail("tracks", "expected an array");
+  const tracks = json.tracks.map((t, i) => parseTrack(t, `tracks[${i}]`, base));
+  const seen = new Set<string>();
+  tracks.forEach((t, i) => {
+    if (seen.has(t.key)) fail(`tracks[${i}].id`, `duplicate id "${t.key}"`);
+    seen.add(t.key);
+  });
+  return { tracks, order: parseOrder(json.order, [...seen]) };
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────────
+// Fetched once per page; a failure is retried on the next call.
+
+let manifestPromise: Promise<TrackManifest> | null = null;
+
+export function loadTrackManifest(): Promise<TrackManifest> {
+  if (manifestPromise) return manifestPromise;
+  const url = new URL(TRACK_MANIFEST_URL, location.href).href;
+  manifestPromise = fetch(url)
+    .then((res) => {
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return res.json();
+    })
+    .then((json) => parseTrackManifest(json, url));
+  manifestPromise.catch(() => {
+    manifestPromise = null;
+  });
+  return manifestPromise;
+}
@@ -0,0 +1,53 @@
+// Minimal RIFF/WAVE writer — interleaved 24-bit signed PCM, which is what
+// installation playback systems expect from exported stems.
+
+const BYTES_PER_SAMPLE = 3;
+const MAX_24 = 0x7fffff;
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+export function encodeWav24(buffer: AudioBuffer): Blob {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const blockAlign = channels * BYTES_PER_SAMPLE;
+  const dataSize = frames * blockAlign;
+
+  const out = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(out);
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(view, 8, "WAVE");
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+  writeAscii(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, ch) =>
+    buffer.getChannelData(ch),
+  );
+  const bytes = new Uint8Array(out);
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const s = Math.max(-1, Math.min(1, data[ch][i]));
+      const v = Math.round(s * MAX_24);
+      bytes[offset] = v & 0xff;
+      bytes[offset + 1] = (v >> 8) & 0xff;
+      bytes[offset + 2] = (v >> 16) & 0xff;
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+
+  return new Blob([out], { type: "audio/wav" });
+}
@@ -0,0 +1,220 @@
+// Ephemeris — approximate sky positions for solar-system targets. MAST gives
+// moving targets no fixed coordinates (targ_ra/targ_dec are blank or 0), so
+// JWSTFetcher works them out here for the observation date.
+//
+// Keplerian elements and their rates per century from JPL's "Approximate
+// Positions of the Planets" (Standish, table 1, valid 1800–2050), good to a
+// few arcminutes — far finer than anything drawn or heard. Moons take their
+// planet's position.
+
+export const PLANETS = [
+  "mercury",
+  "venus",
+  "mars",
+  "jupiter",
+  "saturn",
+  "uranus",
+  "neptune",
+  "pluto",
+] as const;
+export type Planet = (typeof PLANETS)[number];
+
+export interface SolarSystemBody {
+  planet: Planet;
+  moon: string | null; // e.g. "Titan"; null when the planet itself
+}
+
+// [a (au), e, I, L, ϖ (long. of perihelion), Ω (long. of node)] in degrees,
+// then the same six rates per Julian century
+type Elements = [number, number, number, number, number, number];
+
+const ELEMENTS: Record<Planet | "earth", [Elements, Elements]> = {
+  mercury: [
+    [0.38709927, 0.20563593, 7.00497902, 252.2503235, 77.45779628, 48.33076593],
+    [
+      0.00000037, 0.00001906, -0.00594749, 149472.67411175, 0.16047689,
+      -0.12534081,
+    ],
+  ],
+  venus: [
+    [
+      0.72333566, 0.00677672, 3.39467605, 181.9790995, 131.60246718,
+      76.67984255,
+    ],
+    [
+      0.0000039, -0.00004107, -0.0007889, 58517.81538729, 0.00268329,
+      -0.27769418,
+    ],
+  ],
+  // Earth–Moon barycentre
+  earth: [
+    [1.00000261, 0.01671123, -0.00001531, 100.46457166, 102.93768193, 0],
+    [0.00000562, -0.00004392, -0.01294668, 35999.37244981, 0.32327364, 0],
+  ],
+  mars: [
+    [1.52371034, 0.0933941, 1.84969142, -4.55343205, -23.94362959, 49.55953891],
+    [
+      0.00001847, 0.00007882, -0.00813131, 19140.30268499, 0.44441088,
+      -0.29257343,
+    ],
+  ],
+  jupiter: [
+    [5.202887, 0.04838624, 1.30439695, 34.39644051, 14.72847983, 100.47390909],
+    [
+      -0.00011607, -0.00013253, -0.00183714, 3034.74612775, 0.21252668,
+      0.20469106,
+    ],
+  ],
+  saturn: [
+    [
+      9.53667594, 0.05386179, 2.48599187, 49.95424423, 92.59887831,
+      113.66242448,
+    ],
+    [
+      -0.0012506, -0.00050991, 0.00193609, 1222.49362201, -0.41897216,
+      -0.28867794,
+    ],
+  ],
+  uranus: [
+    [
+      19.18916464, 0.04725744, 0.77263783, 313.23810451, 170.9542763,
+      74.01692503,
+    ],
+    [
+      -0.00196176, -0.00004397, -0.00242939, 428.48202785, 0.40805281,
+      0.04240589,
+    ],
+  ],
+  neptune: [
+    [
+      30.06992276, 0.00859048, 1.77004347, -55.12002969, 44.96476227,
+      131.78422574,
+    ],
+    [
+      0.00026291, 0.00005105, 0.00035372, 218.45945325, -0.32241464,
+      -0.00508664,
+    ],
+  ],
+  pluto: [
+    [
+      39.48211675, 0.2488273, 17.14001206, 238.92903833, 224.06891629,
+      110.30393684,
+    ],
+    [
+      -0.00031596, 0.0000517, 0.00004818, 145.20780515, -0.04062942,
+      -0.01183482,
+    ],
+  ],
+};
+
+const MOONS: Record<string, Planet> = {
+  PHOBOS: "mars",
+  DEIMOS: "mars",
+  IO: "jupiter",
+  EUROPA: "jupiter",
+  GANYMEDE: "jupiter",
+  CALLISTO: "jupiter",
+  AMALTHEA: "jupiter",
+  TITAN: "saturn",
+  ENCELADUS: "saturn",
+  RHEA: "saturn",
+  IAPETUS: "saturn",
+  DIONE: "saturn",
+  TETHYS: "saturn",
+  MIMAS: "saturn",
+  HYPERION: "saturn",
+  PHOEBE: "saturn",
+  MIRANDA: "uranus",
+  ARIEL: "uranus",
+  UMBRIEL: "uranus",
+  TITANIA: "uranus",
+  OBERON: "uranus",
+  TRITON: "neptune",
+  NEREID: "neptune",
+  PROTEUS: "neptune",
+  CHARON: "pluto",
+};
+
+const DEG = Math.PI / 180;
+const OBLIQUITY = 23.43928 * DEG; // J2000
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const CENTURY_MS = 36525 * 86_400_000;
+
+// Planet or moon named by the first word of a target name ("JUPITER-GRS",
+// "Titan", "SATURN RINGS"); null for comets, asteroids and anything else
+export function solarSystemBody(targetName: string): SolarSystemBody | null {
+  const first = targetName.toUpperCase().match(/[A-Z]+/)?.[0] ?? "";
+  const planet = PLANETS.find((p) => p.toUpperCase() === first);
+  if (planet) return { planet, moon: null };
+  const parent = MOONS[first];
+  if (!parent) return null;
+  return { planet: parent, moon: first[0] + first.slice(1).toLowerCase() };
+}
+
+// Heliocentric ecliptic position (au)
+function heliocentric(
+  body: Planet | "earth",
+  date: Date,
+): [number, number, number] {
+  const t = (date.getTime() - J2000_MS) / CENTURY_MS;
+  const [base, rate] = ELEMENTS[body];
+  const [a, e, inc, meanLong, periLong, node] = base.map(
+    (v, i) => v + rate[i] * t,
+  );
+  const w = (periLong - node) * DEG;
+  const I = inc * DEG;
+  const O = node * DEG;
+  const M = ((((meanLong - periLong) % 360) + 540) % 360) - 180;
+
+  // Kepler's equation, by Newton's method (in degrees, as JPL gives it)
+  const eDeg = e / DEG;
+  let E = M + eDeg * Math.sin(M * DEG);
+  for (let i = 0; i < 8; i++) {
+    const dM = M - (E - eDeg * Math.sin(E * DEG));
+    const dE = dM / (1 - e * Math.cos(E * DEG));
+    E += dE;
+    if (Math.abs(dE) < 1e-7) break;
+  }
+
+  const xp = a * (Math.cos(E * DEG) - e);
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(E * DEG);
+  return [
+    (Math.cos(w) * Math.cos(O) - Math.sin(w) * Math.sin(O) * Math.cos(I)) * xp +
+      (-Math.sin(w) * Math.cos(O) - Math.cos(w) * Math.sin(O) * Math.cos(I)) *
+        yp,
+    (Math.cos(w) * Math.sin(O) + Math.sin(w) * Math.cos(O) * Math.cos(I)) * xp +
+      (-Math.sin(w) * Math.sin(O) + Math.cos(w) * Math.cos(O) * Math.cos(I)) *
+        yp,
+    Math.sin(w) * Math.sin(I) * xp + Math.cos(w) * Math.sin(I) * yp,
+  ];
+}
+
+// Geocentric RA/Dec in degrees. JWST sits at L2, 0.01 au from Earth — no
+// difference at this precision.
+export function planetPosition(
+  planet: Planet,
+  date: Date,
+): { ra: number; dec: number } {
+  const [px, py, pz] = heliocentric(planet, date);
+  const [ex, ey, ez] = heliocentric("earth", date);
+  const x = px - ex;
+  const y = py - ey;
+  const z = pz - ez;
+  // Ecliptic → equatorial
+  const yq = y * Math.cos(OBLIQUITY) - z * Math.sin(OBLIQUITY);
+  const zq = y * Math.sin(OBLIQUITY) + z * Math.cos(OBLIQUITY);
+  return {
+    ra: (((Math.atan2(yq, x) / DEG) % 360) + 360) % 360,
+    dec: Math.atan2(zq, Math.hypot(x, yq)) / DEG,
+  };
+}
+
+// Position of a named moving target, or null when it isn't a body we carry
+// elements for
+export function movingTargetPosition(
+  targetName: string,
+  date: Date,
+): { ra: number; dec: number } | null {
+  const body = solarSystemBody(targetName);
+  return body ? planetPosition(body.planet, date) : null;
+}
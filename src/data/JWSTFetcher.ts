@@ -1,96 +1,476 @@
-export interface ObservationData {
-  targetName: string;
-  ra: number; // 0–360 degrees
-  dec: number; // -90 to +90 degrees
-  instrument: string;
-  filter: string;
-  targetType: string;
-  timestamp: Date;
-}
+import {
+  DEFAULT_OBSERVATION,
+  isScienceRow,
+  latestObservations,
+  observationKey,
+  rowToObservation,
+  type MastRow,
+  type ObservationData,
+} from "./MastRows";
+import { parseObservationsV2 } from "./ObservationSchema";
+
+export { DEFAULT_OBSERVATION };
+export type { ObservationData };
 
 export type ObservationCallback = (data: ObservationData) => void;
+export type ObservationBatchCallback = (batch: ObservationData[]) => void;
+
+// live      real MAST data, fetched within STALE_AFTER_MS
+// stale     real data, but old, served STALE by the proxy, or the last
+//           request failed
+// fallback  nothing real yet — the proxy's bundled row or the default
+// offline   the browser says it has no network
+export type ConnectionState = "live" | "stale" | "fallback" | "offline";
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  source: string | null; // proxy X-Cache of the last answer: HIT, MISS, STALE, FALLBACK
+  fetchedAt: Date | null; // when the data playing came from MAST; null = none yet
+  error: string | null; // last request failure, cleared by the next answer
+}
 
-export const DEFAULT_OBSERVATION: ObservationData = {
-  targetName: "SMACS 0723",
-  ra: 110.84,
-  dec: -73.45,
-  instrument: "NIRCam",
-  filter: "F277W",
-  targetType: "galaxy cluster",
-  timestamp: new Date(),
-};
+export type ConnectionCallback = (status: ConnectionStatus) => void;
 
 const POLL_INTERVAL_MS = 60_000;
+// Failed polls back off from here, doubling up to the max
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 10 * 60_000;
+// Event stream: consecutive errors without reconnecting before giving up on it
+// for a while and polling instead; retries of the stream back off from
+// STREAM_RETRY_MS the same way
+const STREAM_MAX_ERRORS = 3;
+const STREAM_RETRY_MS = 5 * 60_000;
+const STREAM_RETRY_MAX_MS = 60 * 60_000;
+// Proxy TTL is 5 min, so anything older than this means updates stopped
+const STALE_AFTER_MS = 15 * 60_000;
+// How often the status is re-sent, so ages and live → stale stay current
+const STATUS_TICK_MS = 30_000;
+const MAX_SEEN_IDS = 2000;
 
-// In dev: Vite middleware at /api/jwst proxies + caches MAST.
-// In prod: Vercel function at /api/jwst does the same.
+// In dev: Vite middleware proxies + caches MAST; in prod a Vercel function
+// does the same (api/_lib/proxy.ts). v2 returns normalised observations
+// (see ObservationSchema); v1, the raw MAST rows, is the fallback for a
+// proxy that doesn't serve v2 or a response that fails validation.
+const API_V2_URL = "/api/v2/observations";
+const STREAM_URL = "/api/v2/observations/stream";
 const API_URL = "/api/jwst";
 
+function sameSetup(a: ObservationData, b: ObservationData): boolean {
+  return (
+    a.targetName === b.targetName &&
+    a.instrument === b.instrument &&
+    a.filter === b.filter
+  );
+}
+
+// One answer from the proxy: its observations and where they came from
+interface FeedAnswer {
+  observations: ObservationData[];
+  source: string | null; // X-Cache
+  fetchedAt: Date | null; // from MAST; null = the bundled fallback
+}
+
+// A time-machine window; truncated when the proxy had to leave rows out
+export interface ObservationRange {
+  observations: ObservationData[];
+  truncated: boolean;
+}
+
+// Delay before retry `attempt` (1 = the first): doubling from baseMs up to
+// maxMs, then a random 50–100% of that so clients that failed together
+// don't retry together
+export function backoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling * (0.5 + random() * 0.5));
+}
+
+// Set once the proxy answers v2 with a 404 (an older deployment); later
+// requests go straight to v1
+let v2Missing = false;
+
+// v2 observations, or null when v1 should be used instead. Validation
+// failures are logged rather than thrown — v1 still gets a go.
+async function fetchV2(
+  params: URLSearchParams | null,
+  timeoutMs: number,
+): Promise<(FeedAnswer & { truncated: boolean }) | null> {
+  if (v2Missing) return null;
+  try {
+    const res = await fetch(params ? `${API_V2_URL}?${params}` : API_V2_URL, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (res.status === 404) {
+      v2Missing = true;
+      return null;
+    }
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const { observations, fetchedAt, cache, truncated } = parseObservationsV2(
+      await res.json(),
+    );
+    return { observations, fetchedAt, source: cache, truncated };
+  } catch (err) {
+    console.warn("JWSTFetcher: v2 unavailable, falling back to v1", err);
+    return null;
+  }
+}
+
+// Archive replay: every science observation with date_obs in [from, to],
+// oldest first, with back-to-back exposures of the same setup collapsed —
+// unless the proxy says it's truncated, when busy days are cut short or some
+// days are missing (loading the window again fills those in)
+export async function fetchObservationRange(
+  from: Date,
+  to: Date,
+): Promise<ObservationRange> {
+  const params = new URLSearchParams({
+    from: from.toISOString(),
+    to: to.toISOString(),
+  });
+  const v2 = await fetchV2(params, 120_000);
+  let observations = v2?.observations;
+  let truncated = v2?.truncated ?? false;
+  if (!observations) {
+    const res = await fetch(`${API_URL}?${params}`, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(120_000),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const json = await res.json();
+    const rows: MastRow[] = json.results ?? [];
+    observations = rows.filter(isScienceRow).map(rowToObservation);
+    truncated = json.truncated === true;
+  }
+
+  const sequence: ObservationData[] = [];
+  for (const obs of observations) {
+    if (!obs.observedAt) continue;
+    const prev = sequence[sequence.length - 1];
+    if (prev && sameSetup(prev, obs)) continue;
+    sequence.push(obs);
+  }
+  sequence.sort((a, b) => a.observedAt!.getTime() - b.observedAt!.getTime());
+  return { observations: sequence, truncated };
+}
+
+// Updates arrive over the v2 event stream, pushed as soon as the proxy's
+// cache refreshes with something new; EventSource reconnects by itself after
+// a dropped connection. Where the stream isn't available (no EventSource, an
+// older proxy, repeated errors) it polls instead, and tries the stream again
+// after STREAM_RETRY_MS, backing off while it keeps failing.
+//
+// Nothing is made up when the proxy can't be reached: the last observation
+// keeps playing and onStatus says how old it is. Failed polls retry with
+// exponential backoff, and while the browser is offline nothing is requested.
 export class JWSTFetcher {
-  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private pollId: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+  private stream: EventSource | null = null;
+  private streamRetryId: ReturnType<typeof setTimeout> | null = null;
+  private streamFailures = 0;
+  private statusId: ReturnType<typeof setInterval> | null = null;
   private callback: ObservationCallback | null = null;
+  private batchCallback: ObservationBatchCallback | null = null;
+  private statusCallback: ConnectionCallback | null = null;
+  private seenKeys = new Set<string>();
+  private deliveredKey: string | null = null; // of the last batch[0] delivered
+  // Connection status: consecutive failed polls, and the last answer
+  private failures = 0;
+  private answered = false;
+  private source: string | null = null;
+  private fetchedAt: Date | null = null;
+  private error: string | null = null;
+
+  private readonly handleOnline = () => {
+    this.failures = 0;
+    this.streamFailures = 0;
+    this.connect();
+    this.emitStatus();
+  };
+
+  private readonly handleOffline = () => {
+    this.disconnect();
+    this.emitStatus();
+  };
 
-  start(callback: ObservationCallback): void {
+  // callback receives the newest science observation whenever it changes;
+  // onBatch receives every science observation not seen in earlier updates;
+  // onStatus receives the connection status after every answer or failure,
+  // and every STATUS_TICK_MS so its age stays current.
+  start(
+    callback: ObservationCallback,
+    onBatch?: ObservationBatchCallback,
+    onStatus?: ConnectionCallback,
+  ): void {
     this.callback = callback;
-    this.fetch();
-    this.intervalId = setInterval(() => this.fetch(), POLL_INTERVAL_MS);
+    this.batchCallback = onBatch ?? null;
+    this.statusCallback = onStatus ?? null;
+    window.addEventListener("online", this.handleOnline);
+    window.addEventListener("offline", this.handleOffline);
+    this.statusId = setInterval(() => this.emitStatus(), STATUS_TICK_MS);
+    if (navigator.onLine) {
+      this.connect();
+    } else {
+      // Once anyway — the service worker may have an answer cached
+      void this.fetch();
+    }
+    this.emitStatus();
   }
 
   stop(): void {
-    if (this.intervalId !== null) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    window.removeEventListener("online", this.handleOnline);
+    window.removeEventListener("offline", this.handleOffline);
+    if (this.statusId !== null) {
+      clearInterval(this.statusId);
+      this.statusId = null;
+    }
+    this.disconnect();
+  }
+
+  status(): ConnectionStatus {
+    const age = this.fetchedAt
+      ? Date.now() - this.fetchedAt.getTime()
+      : Infinity;
+    let state: ConnectionState;
+    if (!navigator.onLine) {
+      state = "offline";
+    } else if (!this.fetchedAt) {
+      state = "fallback";
+    } else if (
+      this.error !== null ||
+      this.source === "STALE" ||
+      this.source === "FALLBACK" ||
+      age > STALE_AFTER_MS
+    ) {
+      state = "stale";
+    } else {
+      state = "live";
+    }
+    return {
+      state,
+      source: this.source,
+      fetchedAt: this.fetchedAt,
+      error: this.error,
+    };
+  }
+
+  // Nothing to report until the first answer, unless already offline
+  private emitStatus(): void {
+    if (!this.answered && navigator.onLine) return;
+    this.statusCallback?.(this.status());
+  }
+
+  private connect(): void {
+    this.disconnect();
+    if (typeof EventSource !== "undefined" && !v2Missing) {
+      this.openStream();
+    } else {
+      this.startPolling();
+    }
+  }
+
+  private disconnect(): void {
+    this.stopPolling();
+    this.stream?.close();
+    this.stream = null;
+    if (this.streamRetryId !== null) {
+      clearTimeout(this.streamRetryId);
+      this.streamRetryId = null;
+    }
+  }
+
+  private openStream(): void {
+    this.streamRetryId = null;
+    const stream = new EventSource(STREAM_URL);
+    this.stream = stream;
+    let errors = 0;
+
+    stream.addEventListener("observations", (e) => {
+      errors = 0;
+      this.streamFailures = 0;
+      this.stopPolling();
+      try {
+        const { observations, fetchedAt, cache } = parseObservationsV2(
+          JSON.parse((e as MessageEvent<string>).data),
+        );
+        this.receive({ observations, fetchedAt, source: cache });
+      } catch (err) {
+        console.warn("JWSTFetcher: bad stream event, ignored", err);
+      }
+    });
+
+    // The same observations, served again: only their age has changed
+    stream.addEventListener("status", (e) => {
+      errors = 0;
+      this.streamFailures = 0;
+      this.stopPolling();
+      try {
+        const { fetchedAt, cache } = JSON.parse(
+          (e as MessageEvent<string>).data,
+        );
+        const at = typeof fetchedAt === "string" ? new Date(fetchedAt) : null;
+        this.receive({
+          observations: [],
+          fetchedAt: at && !isNaN(at.getTime()) ? at : null,
+          source: typeof cache === "string" ? cache : null,
+        });
+      } catch (err) {
+        console.warn("JWSTFetcher: bad stream event, ignored", err);
+      }
+    });
+
+    // A connection that opens has recovered, whether or not anything new is
+    // sent on it
+    stream.onopen = () => {
+      errors = 0;
+    };
+
+    // CLOSED means the browser won't reconnect (e.g. a 404); otherwise it's
+    // already retrying. The server ending the stream at its time limit looks
+    // the same as a drop, so a lone error isn't reported: the feed only goes
+    // stale after STREAM_MAX_ERRORS without reconnecting, or by itself once the
+    // data is older than STALE_AFTER_MS.
+    stream.onerror = () => {
+      if (this.stream !== stream) {
+        stream.close();
+        return;
+      }
+      errors++;
+      if (
+        stream.readyState !== EventSource.CLOSED &&
+        errors < STREAM_MAX_ERRORS
+      ) {
+        return;
+      }
+      this.answered = true;
+      this.error = "event stream interrupted";
+      this.emitStatus();
+      stream.close();
+      this.stream = null;
+      this.streamFailures++;
+      console.warn("JWSTFetcher: event stream unavailable, polling instead");
+      this.startPolling();
+      this.streamRetryId = setTimeout(
+        () => this.openStream(),
+        backoffDelay(this.streamFailures, STREAM_RETRY_MS, STREAM_RETRY_MAX_MS),
+      );
+    };
+  }
+
+  private startPolling(): void {
+    if (this.polling) return;
+    this.polling = true;
+    void this.poll();
+  }
+
+  private stopPolling(): void {
+    this.polling = false;
+    if (this.pollId !== null) {
+      clearTimeout(this.pollId);
+      this.pollId = null;
     }
   }
 
+  // One poll, then the next scheduled — POLL_INTERVAL_MS after an answer,
+  // backing off after failures
+  private async poll(): Promise<void> {
+    this.pollId = null;
+    await this.fetch();
+    if (!this.polling || this.pollId !== null) return;
+    const delay =
+      this.failures === 0
+        ? POLL_INTERVAL_MS
+        : backoffDelay(this.failures, RETRY_BASE_MS, RETRY_MAX_MS);
+    this.pollId = setTimeout(() => this.poll(), delay);
+  }
+
   private async fetch(): Promise<void> {
     try {
-      const data = await this.fetchFromMAST();
-      this.callback?.(data);
+      this.receive(await this.fetchFromMAST());
     } catch (err) {
-      console.warn("JWSTFetcher: fetch failed, using default data", err);
-      this.callback?.({ ...DEFAULT_OBSERVATION, timestamp: new Date() });
+      this.failures++;
+      this.answered = true;
+      this.error = err instanceof Error ? err.message : String(err);
+      console.warn(
+        `JWSTFetcher: fetch failed (${this.failures} in a row), keeping current data`,
+        err,
+      );
+      this.emitStatus();
+    }
+  }
+
+  // The proxy's bundled fallback only plays until real data has arrived;
+  // an empty answer changes nothing but the status
+  private receive(answer: FeedAnswer): void {
+    this.failures = 0;
+    this.answered = true;
+    this.error = null;
+    this.source = answer.source;
+    if (answer.fetchedAt) this.fetchedAt = answer.fetchedAt;
+    if (
+      answer.observations.length > 0 &&
+      (answer.fetchedAt !== null || this.fetchedAt === null)
+    ) {
+      this.deliver(answer.observations, answer.fetchedAt);
+    }
+    this.emitStatus();
+  }
+
+  // Newest first; stamped with when MAST returned them, where known
+  private deliver(batch: ObservationData[], fetchedAt: Date | null): void {
+    if (fetchedAt)
+      batch = batch.map((obs) => ({ ...obs, timestamp: fetchedAt }));
+    const fresh = batch.filter((obs) => this.markSeen(obs));
+    if (fresh.length > 0) this.batchCallback?.(fresh);
+    // A quiet poll or a reconnect repeats what's already playing
+    const newest = observationKey(batch[0]);
+    if (newest === this.deliveredKey) return;
+    this.deliveredKey = newest;
+    this.callback?.(batch[0]);
+  }
+
+  private markSeen(obs: ObservationData): boolean {
+    const key = observationKey(obs);
+    if (this.seenKeys.has(key)) return false;
+    this.seenKeys.add(key);
+    if (this.seenKeys.size > MAX_SEEN_IDS) {
+      this.seenKeys.delete(this.seenKeys.values().next().value!);
     }
+    return true;
   }
 
-  private async fetchFromMAST(): Promise<ObservationData> {
+  // Throws when neither v2 nor v1 answers
+  private async fetchFromMAST(): Promise<FeedAnswer> {
+    const v2 = await fetchV2(null, 35_000);
+    if (v2) return v2;
+
     // GET /api/jwst in both dev/prod — server-side proxy + cache.
     const res = await fetch(API_URL, {
       method: "GET",
       headers: { Accept: "application/json" },
       signal: AbortSignal.timeout(35_000),
     });
-
-    if (!res.ok) {
-      console.warn(
-        `JWSTFetcher: upstream unavailable (HTTP ${res.status}), using fallback`,
-      );
-      return { ...DEFAULT_OBSERVATION, timestamp: new Date() };
-    }
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
 
     const json = await res.json();
-    const results: Record<string, unknown>[] = json.results ?? [];
-    if (results.length === 0) {
-      return { ...DEFAULT_OBSERVATION, timestamp: new Date() };
-    }
-
-    // Skip calibration/engineering frames — find first real science target
-    const obs =
-      results.find(
-        (r) =>
-          r.targprop &&
-          r.targprop !== "UNKNOWN" &&
-          !String(r.exp_type ?? "").match(/DARK|FLAT|BIAS|LAMP|FOCUS/),
-      ) ?? results[0];
-
+    const results: MastRow[] = json.results ?? [];
+    const source = res.headers.get("X-Cache");
+    const fetchedAt = res.headers.get("X-Fetched-At");
     return {
-      targetName: String(obs.targprop ?? "Unknown"),
-      ra: Number(obs.targ_ra ?? DEFAULT_OBSERVATION.ra),
-      dec: Number(obs.targ_dec ?? DEFAULT_OBSERVATION.dec),
-      instrument: String(obs.instrume ?? "Unknown"),
-      filter: String(obs.opticalElements ?? "Unknown"),
-      targetType: String(obs.targtype ?? "unknown").toLowerCase(),
-      timestamp: new Date(),
+      // Keep only real science targets
+      observations: latestObservations(results),
+      source,
+      // A proxy from before X-Fetched-At: anything but its fallback is fresh
+      fetchedAt: fetchedAt
+        ? new Date(fetchedAt)
+        : source === "FALLBACK"
+          ? null
+          : new Date(),
     };
   }
 }
@@ -0,0 +1,299 @@
+// JWST filters and dispersers — pivot wavelength and bandwidth (µm) for every
+// NIRCam, NIRISS, NIRSpec and MIRI optical element, so mappings can work in
+// real microns instead of the digits of a filter name. Values are from the
+// JWST User Documentation (JDox) instrument pages.
+//
+// MAST reports an observation's `opticalElements` as a ";"-separated list:
+// filter wheel + pupil wheel ("CLEAR;F150W", "F444W;F470N") or filter +
+// disperser ("F290LP;G395M", "CLEAR;PRISM"). The band that actually reaches
+// the detector is the narrowest of them — see effectiveBand.
+
+import type { ObservationData } from "./JWSTFetcher";
+
+//   wide / medium / narrow — imaging filters (W, W2/X; M; N), also used
+//                            for the MIRI coronagraph filters by their width
+//   longpass               — NIRSpec order-blocking filters
+//   disperser              — gratings, prisms and grisms, spanning their range
+export type BandClass = "wide" | "medium" | "narrow" | "longpass" | "disperser";
+
+export interface JWSTBand {
+  name: string;
+  instrument: string; // NIRCAM, NIRISS, NIRSPEC, MIRI
+  pivotMicrons: number;
+  bandwidthMicrons: number;
+  bandClass: BandClass;
+}
+
+type Row = [name: string, pivot: number, bandwidth: number, cls: BandClass];
+
+// Dispersers and long-pass filters are listed by the range they cover
+function span(name: string, from: number, to: number, cls: BandClass): Row {
+  return [name, (from + to) / 2, to - from, cls];
+}
+
+const NIRCAM: Row[] = [
+  ["F070W", 0.704, 0.128, "wide"],
+  ["F090W", 0.901, 0.194, "wide"],
+  ["F115W", 1.154, 0.225, "wide"],
+  ["F140M", 1.404, 0.142, "medium"],
+  ["F150W", 1.501, 0.318, "wide"],
+  ["F150W2", 1.671, 1.227, "wide"],
+  ["F162M", 1.626, 0.168, "medium"],
+  ["F164N", 1.644, 0.02, "narrow"],
+  ["F182M", 1.845, 0.238, "medium"],
+  ["F187N", 1.874, 0.024, "narrow"],
+  ["F200W", 1.99, 0.461, "wide"],
+  ["F210M", 2.093, 0.205, "medium"],
+  ["F212N", 2.12, 0.027, "narrow"],
+  ["F250M", 2.503, 0.181, "medium"],
+  ["F277W", 2.786, 0.672, "wide"],
+  ["F300M", 2.996, 0.318, "medium"],
+  ["F322W2", 3.247, 1.339, "wide"],
+  ["F323N", 3.237, 0.038, "narrow"],
+  ["F335M", 3.365, 0.347, "medium"],
+  ["F356W", 3.563, 0.787, "wide"],
+  ["F360M", 3.621, 0.372, "medium"],
+  ["F405N", 4.055, 0.046, "narrow"],
+  ["F410M", 4.092, 0.436, "medium"],
+  ["F430M", 4.28, 0.228, "medium"],
+  ["F444W", 4.421, 1.024, "wide"],
+  ["F460M", 4.624, 0.228, "medium"],
+  ["F466N", 4.654, 0.054, "narrow"],
+  ["F470N", 4.707, 0.051, "narrow"],
+  ["F480M", 4.834, 0.303, "medium"],
+  span("GRISMR", 2.4, 5.0, "disperser"),
+  span("GRISMC", 2.4, 5.0, "disperser"),
+];
+
+const NIRISS: Row[] = [
+  ["F090W", 0.9, 0.2, "wide"],
+  ["F115W", 1.15, 0.264, "wide"],
+  ["F140M", 1.404, 0.143, "medium"],
+  ["F150W", 1.494, 0.323, "wide"],
+  ["F158M", 1.582, 0.198, "medium"],
+  ["F200W", 1.993, 0.464, "wide"],
+  ["F277W", 2.764, 0.7, "wide"],
+  ["F356W", 3.593, 0.823, "wide"],
+  ["F380M", 3.825, 0.205, "medium"],
+  ["F430M", 4.284, 0.203, "medium"],
+  ["F444W", 4.428, 1.078, "wide"],
+  ["F480M", 4.815, 0.312, "medium"],
+  span("GR150R", 0.8, 2.25, "disperser"),
+  span("GR150C", 0.8, 2.25, "disperser"),
+  span("GR700XD", 0.6, 2.8, "disperser"),
+];
+
+const NIRSPEC: Row[] = [
+  span("F070LP", 0.7, 1.27, "longpass"),
+  span("F100LP", 0.97, 1.89, "longpass"),
+  span("F170LP", 1.66, 3.17, "longpass"),
+  span("F290LP", 2.87, 5.27, "longpass"),
+  span("F110W", 1.0, 1.28, "wide"),
+  span("F140X", 0.8, 2.0, "wide"),
+  span("G140M", 0.97, 1.89, "disperser"),
+  span("G140H", 0.97, 1.89, "disperser"),
+  span("G235M", 1.66, 3.17, "disperser"),
+  span("G235H", 1.66, 3.17, "disperser"),
+  span("G395M", 2.87, 5.27, "disperser"),
+  span("G395H", 2.87, 5.27, "disperser"),
+  span("PRISM", 0.6, 5.3, "disperser"),
+];
+
+const MIRI: Row[] = [
+  ["F560W", 5.635, 1.0, "wide"],
+  ["F770W", 7.639, 1.95, "wide"],
+  ["F1000W", 9.953, 1.8, "wide"],
+  ["F1130W", 11.309, 0.73, "medium"],
+  ["F1280W", 12.81, 2.47, "wide"],
+  ["F1500W", 15.064, 2.92, "wide"],
+  ["F1800W", 17.984, 2.95, "wide"],
+  ["F2100W", 20.795, 4.58, "wide"],
+  ["F2550W", 25.365, 3.67, "wide"],
+  ["F1065C", 10.575, 0.53, "medium"],
+  ["F1140C", 11.31, 0.57, "medium"],
+  ["F1550C", 15.516, 0.73, "medium"],
+  ["F2300C", 22.64, 3.5, "wide"],
+  span("P750L", 5.0, 14.0, "disperser"), // LRS
+  // MRS sub-bands, reported across all four channels at once
+  span("SHORT", 4.9, 22.5, "disperser"),
+  span("MEDIUM", 5.66, 26.05, "disperser"),
+  span("LONG", 6.53, 27.9, "disperser"),
+];
+
+const BANDS: JWSTBand[] = (
+  [
+    ["NIRCAM", NIRCAM],
+    ["NIRISS", NIRISS],
+    ["NIRSPEC", NIRSPEC],
+    ["MIRI", MIRI],
+  ] as const
+).flatMap(([instrument, rows]) =>
+  rows.map(([name, pivotMicrons, bandwidthMicrons, bandClass]) => ({
+    name,
+    instrument,
+    pivotMicrons,
+    bandwidthMicrons,
+    bandClass,
+  })),
+);
+
+// Elements that don't select a band (open wheel positions, masks, weak lenses)
+const PASS_THROUGH =
+  /^(CLEAR|CLEARP|OPAQUE|NONE|N\/A|UNKNOWN|WLP\d+|WLM\d+|NRM)$/;
+
+// Filters missing from the table still follow the naming convention: F, the
+// pivot in hundredths of a micron, then the width letter
+const FILTER_NAME = /^F(\d{3,4})(W2?|M|N|X|LP)$/;
+const CLASS_BY_SUFFIX: Record<string, BandClass> = {
+  W: "wide",
+  W2: "wide",
+  X: "wide",
+  M: "medium",
+  N: "narrow",
+  LP: "longpass",
+};
+// Typical fractional bandwidth per class, for those untabled filters
+const FRACTIONAL_WIDTH: Record<BandClass, number> = {
+  wide: 0.22,
+  medium: 0.1,
+  narrow: 0.012,
+  longpass: 0.5,
+  disperser: 0.6,
+};
+
+export function lookupBand(name: string, instrument = ""): JWSTBand | null {
+  const key = name.trim().toUpperCase();
+  const inst = instrument.trim().toUpperCase();
+  const matches = BANDS.filter((b) => b.name === key);
+  const band = matches.find((b) => b.instrument === inst) ?? matches[0];
+  if (band) return band;
+
+  const m = FILTER_NAME.exec(key);
+  if (!m) return null;
+  const pivotMicrons = parseInt(m[1], 10) / 100;
+  const bandClass = CLASS_BY_SUFFIX[m[2]];
+  return {
+    name: key,
+    instrument: inst,
+    pivotMicrons,
+    bandwidthMicrons: pivotMicrons * FRACTIONAL_WIDTH[bandClass],
+    bandClass,
+  };
+}
+
+// Every recognised band in a MAST opticalElements string, in the order given.
+// Open positions and unknown elements are skipped, so "CLEAR" gives [].
+export function parseOpticalElements(
+  elements: string,
+  instrument = "",
+): JWSTBand[] {
+  return elements
+    .split(/[;,+\s]+/)
+    .map((e) => e.trim().toUpperCase())
+    .filter((e) => e !== "" && !PASS_THROUGH.test(e))
+    .map((e) => lookupBand(e, instrument))
+    .filter((b): b is JWSTBand => b !== null);
+}
+
+// Stacked elements only pass the light all of them pass: a narrow filter in
+// the pupil wheel inside a wide one, or a grating behind its long-pass filter
+// (ties go to the later element, so the grating names the band)
+export function effectiveBand(bands: JWSTBand[]): JWSTBand | null {
+  if (bands.length === 0) return null;
+  return bands.reduce((a, b) =>
+    b.bandwidthMicrons <= a.bandwidthMicrons ? b : a,
+  );
+}
+
+export function observationBands(obs: ObservationData): JWSTBand[] {
+  return parseOpticalElements(obs.filter, obs.instrument);
+}
+
+export function observationBand(obs: ObservationData): JWSTBand | null {
+  return effectiveBand(observationBands(obs));
+}
+
+// ── Spectroscopy ──────────────────────────────────────────────────────────────
+
+// MAST exp_type values for dispersed observations
+const SPECTROSCOPIC_EXP_TYPES = new Set([
+  "NRS_FIXEDSLIT",
+  "NRS_IFU",
+  "NRS_MSASPEC",
+  "NRS_BRIGHTOBJ",
+  "NIS_SOSS",
+  "NIS_WFSS",
+  "NRC_WFSS",
+  "NRC_TSGRISM",
+  "MIR_LRS-FIXEDSLIT",
+  "MIR_LRS-SLITLESS",
+  "MIR_MRS",
+]);
+
+export interface SpectralRange {
+  disperser: string;
+  fromMicrons: number;
+  toMicrons: number;
+}
+
+// Imaging exposures of a spectroscopic program (target acquisition, MSA
+// confirmation) carry no disperser, so the exp_type alone isn't enough
+export function isSpectroscopic(obs: ObservationData): boolean {
+  const expType = obs.expType?.toUpperCase();
+  if (expType && !SPECTROSCOPIC_EXP_TYPES.has(expType)) return false;
+  return spectralRange(obs) !== null;
+}
+
+// Wavelengths the disperser spreads across the detector — the overlap of
+// every element in the beam (a grism behind F150W only passes F150W's band).
+// Null for imaging.
+export function spectralRange(obs: ObservationData): SpectralRange | null {
+  const bands = observationBands(obs);
+  const named = obs.disperser
+    ? lookupBand(obs.disperser, obs.instrument)
+    : null;
+  const disperser =
+    (named?.bandClass === "disperser" ? named : null) ??
+    bands.find((b) => b.bandClass === "disperser");
+  if (!disperser) return null;
+  if (!bands.includes(disperser)) bands.push(disperser);
+
+  const edges = bands.map((b) => [
+    b.pivotMicrons - b.bandwidthMicrons / 2,
+    b.pivotMicrons + b.bandwidthMicrons / 2,
+  ]);
+  let from = Math.max(...edges.map(([lo]) => lo));
+  let to = Math.min(...edges.map(([, hi]) => hi));
+  if (to <= from) {
+    from = disperser.pivotMicrons - disperser.bandwidthMicrons / 2;
+    to = disperser.pivotMicrons + disperser.bandwidthMicrons / 2;
+  }
+  return { disperser: disperser.name, fromMicrons: from, toMicrons: to };
+}
+
+// Prominent infrared features — what a spectrum of gas, dust and ice in
+// Webb's range tends to show. Emission and absorption alike; the sound and
+// picture just mark where something is going on.
+export const SPECTRAL_FEATURES: { name: string; microns: number }[] = [
+  { name: "Hα", microns: 0.6563 },
+  { name: "[S III]", microns: 0.9531 },
+  { name: "He I", microns: 1.083 },
+  { name: "Paβ", microns: 1.282 },
+  { name: "[Fe II]", microns: 1.644 },
+  { name: "Paα", microns: 1.875 },
+  { name: "H₂", microns: 2.122 },
+  { name: "Brγ", microns: 2.166 },
+  { name: "H₂O ice", microns: 3.05 },
+  { name: "PAH", microns: 3.3 },
+  { name: "Brα", microns: 4.052 },
+  { name: "CO₂ ice", microns: 4.27 },
+  { name: "CO", microns: 4.67 },
+  { name: "PAH", microns: 6.2 },
+  { name: "PAH", microns: 7.7 },
+  { name: "Silicate", microns: 9.7 },
+  { name: "PAH", microns: 11.3 },
+  { name: "[Ne II]", microns: 12.81 },
+  { name: "[Ne III]", microns: 15.56 },
+  { name: "[S III]", microns: 18.71 },
+  { name: "[O IV]", microns: 25.89 },
+];
@@ -0,0 +1,145 @@
+// MastRows — MAST rows normalised to ObservationData. No DOM here: the
+// proxy (api/_lib/proxy.ts) builds its v2 responses with these, and
+// JWSTFetcher uses them for the v1 fallback and range queries.
+
+import { movingTargetPosition, solarSystemBody } from "./Ephemeris.js";
+
+export interface ObservationData {
+  id?: string; // MAST fileSetName, when known
+  targetName: string;
+  ra: number; // 0–360 degrees
+  dec: number; // -90 to +90 degrees
+  instrument: string;
+  filter: string;
+  targetType: string;
+  timestamp: Date;
+  observedAt?: Date; // exposure start (MAST expstart, else date_obs)
+  expType?: string; // MAST exp_type, e.g. NRC_IMAGE, NRS_IFU
+  disperser?: string; // grating / grism / prism, for spectroscopy
+  moving?: boolean; // solar-system target; ra/dec from the bundled ephemeris
+  unplaced?: boolean; // moving target the ephemeris can't place; ra/dec are 0
+  programId?: number; // MAST program
+  pi?: string; // MAST pi_name
+  exposureSeconds?: number; // MAST effexptm
+  instrumentMode?: string; // MAST template, e.g. "NIRCam Imaging"
+}
+
+export const DEFAULT_OBSERVATION: ObservationData = {
+  targetName: "SMACS 0723",
+  ra: 110.84,
+  dec: -73.45,
+  instrument: "NIRCam",
+  filter: "F277W",
+  targetType: "galaxy cluster",
+  timestamp: new Date(),
+};
+
+export type MastRow = Record<string, unknown>;
+
+// Skip calibration/engineering frames
+export function isScienceRow(r: MastRow): boolean {
+  return (
+    !!r.targprop &&
+    r.targprop !== "UNKNOWN" &&
+    !String(r.exp_type ?? "").match(/DARK|FLAT|BIAS|LAMP|FOCUS/)
+  );
+}
+
+// MAST fills unused keyword columns with N/A or NONE
+function keyword(value: unknown): string | null {
+  const s = String(value ?? "").trim();
+  return s === "" || /^(N\/A|NONE|UNKNOWN)$/i.test(s) ? null : s;
+}
+
+// Moving targets carry no usable targ_ra/targ_dec — MAST leaves them blank or
+// zero. Planets and their moons get a position from the ephemeris instead;
+// anything else moving (comets, asteroids) has none and is marked unplaced.
+function isMovingRow(obs: MastRow): boolean {
+  const targetType = String(obs.targtype ?? "").trim();
+  if (targetType.toUpperCase() === "MOVING") return true;
+  const ra = Number(obs.targ_ra ?? NaN);
+  const dec = Number(obs.targ_dec ?? NaN);
+  return (
+    (!Number.isFinite(ra) || ra === 0) &&
+    (!Number.isFinite(dec) || dec === 0) &&
+    solarSystemBody(String(obs.targprop ?? "")) !== null
+  );
+}
+
+// MJD → Date; MAST times (expstart) are MJD UTC
+function mjdToDate(value: unknown): Date | null {
+  const mjd = Number(value ?? NaN);
+  return Number.isFinite(mjd) && mjd > 0
+    ? new Date((mjd - 40587) * 86_400_000)
+    : null;
+}
+
+function positiveNumber(value: unknown): number | null {
+  const n = Number(value ?? NaN);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+// Used by the proxy for v2 and by JWSTFetcher itself for v1
+export function rowToObservation(obs: MastRow): ObservationData {
+  const dateObs = obs.date_obs ? new Date(String(obs.date_obs)) : null;
+  const observedAt =
+    mjdToDate(obs.expstart) ??
+    (dateObs && !isNaN(dateObs.getTime()) ? dateObs : null);
+  const expType = keyword(obs.exp_type);
+  const disperser = keyword(obs.grating);
+  const programId = positiveNumber(obs.program);
+  const pi = keyword(obs.pi_name);
+  const exposureSeconds = positiveNumber(obs.effexptm);
+  const instrumentMode = keyword(obs.template);
+  const targetName = String(obs.targprop ?? "Unknown");
+  const moving = isMovingRow(obs);
+  const position = moving
+    ? movingTargetPosition(targetName, observedAt ?? new Date())
+    : null;
+  const unplaced = moving && !position;
+  return {
+    ...(obs.fileSetName ? { id: String(obs.fileSetName) } : {}),
+    targetName,
+    ra: unplaced
+      ? 0
+      : (position?.ra ?? Number(obs.targ_ra ?? DEFAULT_OBSERVATION.ra)),
+    dec: unplaced
+      ? 0
+      : (position?.dec ?? Number(obs.targ_dec ?? DEFAULT_OBSERVATION.dec)),
+    instrument: String(obs.instrume ?? "Unknown"),
+    filter: String(obs.opticalElements ?? "Unknown"),
+    targetType: String(obs.targtype ?? "unknown").toLowerCase(),
+    timestamp: new Date(),
+    ...(observedAt ? { observedAt } : {}),
+    ...(expType ? { expType } : {}),
+    ...(disperser ? { disperser } : {}),
+    ...(moving ? { moving } : {}),
+    ...(unplaced ? { unplaced } : {}),
+    ...(programId ? { programId } : {}),
+    ...(pi ? { pi } : {}),
+    ...(exposureSeconds ? { exposureSeconds } : {}),
+    ...(instrumentMode ? { instrumentMode } : {}),
+  };
+}
+
+// A latest-observations poll: the science rows, newest first, or the first
+// row when there are none so there's always something to play
+export function latestObservations(rows: MastRow[]): ObservationData[] {
+  const science = rows.filter(isScienceRow);
+  if (science.length === 0) return rows.slice(0, 1).map(rowToObservation);
+  return science.map(rowToObservation);
+}
+
+// Stable identity across polls — MAST's file set name, or the observation's
+// setup + start time for rows without one
+export function observationKey(obs: ObservationData): string {
+  return (
+    obs.id ??
+    [
+      obs.targetName,
+      obs.instrument,
+      obs.filter,
+      obs.observedAt?.toISOString() ?? "",
+    ].join("|")
+  );
+}
@@ -0,0 +1,195 @@
+// ObservationSchema — the wire format of /api/v2/observations. The proxy
+// normalises MAST rows server-side (science frames only, keyword columns
+// cleaned, moving targets positioned) and serialises them with
+// toObservationV2; JWSTFetcher, and any other client, checks what arrives
+// with parseObservationsV2 before trusting it.
+//
+//   {
+//     "schema": "webbwave.observations/2",
+//     "fetchedAt": "2026-10-19T18:00:00.000Z",   // from MAST; null = fallback
+//     "cache": "HIT",                            // proxy X-Cache
+//     "truncated": false,                        // a from/to window cut short
+//     "observations": [ ObservationV2, … ]       // newest first, or oldest
+//   }                                            // first for a from/to window
+//
+// Bump the schema string for any change an old client would misread; adding
+// a nullable field isn't one.
+
+import type { ObservationData } from "./MastRows.js";
+
+export const OBSERVATIONS_SCHEMA = "webbwave.observations/2";
+
+export interface ObservationV2 {
+  id: string; // MAST fileSetName, or setup + start time
+  targetName: string;
+  targetType: string; // lower-cased MAST targtype
+  ra: number; // degrees, 0–360
+  dec: number; // degrees, -90 to +90
+  moving: boolean; // solar-system target, positioned from the ephemeris
+  unplaced: boolean; // moving, but not in the ephemeris: ra/dec are 0
+  instrument: string;
+  instrumentMode: string | null; // APT template, e.g. "NIRCam Imaging"
+  filter: string; // MAST opticalElements
+  disperser: string | null;
+  expType: string | null;
+  programId: number | null;
+  pi: string | null;
+  observedAt: string | null; // ISO exposure start
+  exposureSeconds: number | null;
+}
+
+export interface ObservationsV2Response {
+  schema: typeof OBSERVATIONS_SCHEMA;
+  fetchedAt: string | null;
+  cache: string;
+  truncated: boolean; // some day of the window cut short or left out
+  observations: ObservationV2[];
+}
+
+export function toObservationV2(
+  obs: ObservationData,
+  id: string,
+): ObservationV2 {
+  return {
+    id,
+    targetName: obs.targetName,
+    targetType: obs.targetType,
+    ra: obs.ra,
+    dec: obs.dec,
+    moving: obs.moving ?? false,
+    unplaced: obs.unplaced ?? false,
+    instrument: obs.instrument,
+    instrumentMode: obs.instrumentMode ?? null,
+    filter: obs.filter,
+    disperser: obs.disperser ?? null,
+    expType: obs.expType ?? null,
+    programId: obs.programId ?? null,
+    pi: obs.pi ?? null,
+    observedAt: obs.observedAt?.toISOString() ?? null,
+    exposureSeconds: obs.exposureSeconds ?? null,
+  };
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+function fail(path: string, message: string): never {
+  throw new Error(`Observations v2: ${path}: ${message}`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function str(o: Record<string, unknown>, key: string, path: string): string {
+  const v = o[key];
+  if (typeof v !== "string") fail(`${path}.${key}`, "expected a string");
+  return v;
+}
+
+function optStr(
+  o: Record<string, unknown>,
+  key: string,
+  path: string,
+): string | null {
+  return o[key] === null || o[key] === undefined ? null : str(o, key, path);
+}
+
+function num(
+  o: Record<string, unknown>,
+  key: string,
+  path: string,
+  min = -Infinity,
+  max = Infinity,
+): number {
+  const v = o[key];
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    fail(`${path}.${key}`, "expected a number");
+  }
+  if (v < min || v > max) fail(`${path}.${key}`, `must be ${min}–${max}`);
+  return v;
+}
+
+function optNum(
+  o: Record<string, unknown>,
+  key: string,
+  path: string,
+): number | null {
+  return o[key] === null || o[key] === undefined ? null : num(o, key, path);
+}
+
+function date(value: string | null, path: string): Date | null {
+  if (value === null) return null;
+  const d = new Date(value);
+  if (isNaN(d.getTime())) fail(path, "expected an ISO date");
+  return d;
+}
+
+function parseObservation(raw: unknown, path: string): ObservationData {
+  if (!isObject(raw)) fail(path, "expected an object");
+  const observedAt = date(
+    optStr(raw, "observedAt", path),
+    `${path}.observedAt`,
+  );
+  const instrumentMode = optStr(raw, "instrumentMode", path);
+  const disperser = optStr(raw, "disperser", path);
+  const expType = optStr(raw, "expType", path);
+  const programId = optNum(raw, "programId", path);
+  const pi = optStr(raw, "pi", path);
+  const exposureSeconds = optNum(raw, "exposureSeconds", path);
+  for (const key of ["moving", "unplaced"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "boolean") {
+      fail(`${path}.${key}`, "expected a boolean");
+    }
+  }
+  return {
+    id: str(raw, "id", path),
+    targetName: str(raw, "targetName", path),
+    targetType: str(raw, "targetType", path),
+    ra: num(raw, "ra", path, 0, 360),
+    dec: num(raw, "dec", path, -90, 90),
+    instrument: str(raw, "instrument", path),
+    filter: str(raw, "filter", path),
+    timestamp: new Date(),
+    ...(observedAt ? { observedAt } : {}),
+    ...(raw.moving ? { moving: true } : {}),
+    ...(raw.unplaced ? { unplaced: true } : {}),
+    ...(instrumentMode !== null ? { instrumentMode } : {}),
+    ...(disperser !== null ? { disperser } : {}),
+    ...(expType !== null ? { expType } : {}),
+    ...(programId !== null ? { programId } : {}),
+    ...(pi !== null ? { pi } : {}),
+    ...(exposureSeconds !== null ? { exposureSeconds } : {}),
+  };
+}
+
+// The observations of a v2 response, or an Error naming the first field that
+// doesn't match the schema
+export function parseObservationsV2(raw: unknown): {
+  observations: ObservationData[];
+  fetchedAt: Date | null;
+  cache: string;
+  truncated: boolean;
+} {
+  if (!isObject(raw)) fail("response", "expected an object");
+  if (raw.schema !== OBSERVATIONS_SCHEMA) {
+    fail(
+      "schema",
+      `expected "${OBSERVATIONS_SCHEMA}", got ${JSON.stringify(raw.schema)}`,
+    );
+  }
+  if (!Array.isArray(raw.observations)) {
+    fail("observations", "expected an array");
+  }
+  // Absent from proxies older than the field
+  if (raw.truncated !== undefined && typeof raw.truncated !== "boolean") {
+    fail("truncated", "expected a boolean");
+  }
+  return {
+    observations: raw.observations.map((o, i) =>
+      parseObservation(o, `observations[${i}]`),
+    ),
+    fetchedAt: date(optStr(raw, "fetchedAt", "response"), "fetchedAt"),
+    cache: str(raw, "cache", "response"),
+    truncated: raw.truncated === true,
+  };
+}
@@ -0,0 +1,158 @@
+// SessionState — URL-hash codec for a full Webbwave session, so a link can
+// reproduce "this exact sound over NGC 346 in D♯ SUS4 with SPACE at 80".
+//
+// Everything lives in the fragment (never sent to the server) as plain
+// URLSearchParams, e.g.
+//   #key=D%23&mode=SUS4&zoom=1.4&space=80&target=NGC+346&ra=14.77&dec=-72.17
+
+import type { ObservationData } from "./JWSTFetcher";
+import { PROJECTION_KINDS, type ProjectionKind } from "../viz/SkyProjection";
+
+export interface KnobState {
+  volume: number; // slider values, 0–100
+  space: number;
+  colour: number;
+  scatter: number;
+  pulse: number;
+  signal: number;
+}
+
+export interface SessionState {
+  chordRoot: number; // semitones above A
+  chordMode: string;
+  zoom: number;
+  knobs: KnobState;
+  autopilot: boolean;
+  seed: number | null;
+  projection: ProjectionKind;
+  mapping: string | null; // built-in mapping profile name; null = user profile
+  observation: ObservationData | null;
+}
+
+export type DecodedSessionState = Partial<Omit<SessionState, "knobs">> & {
+  knobs?: Partial<KnobState>;
+};
+
+// Indexed by semitones above A, matching the piano's data-semi attributes
+const NOTE_NAMES = [
+  "A",
+  "A#",
+  "B",
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+];
+
+const KNOB_KEYS: (keyof KnobState)[] = [
+  "volume",
+  "space",
+  "colour",
+  "scatter",
+  "pulse",
+  "signal",
+];
+
+function num(params: URLSearchParams, key: string): number | null {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function encodeSessionState(state: SessionState): string {
+  const params = new URLSearchParams();
+  params.set("key", NOTE_NAMES[((state.chordRoot % 12) + 12) % 12]);
+  params.set("mode", state.chordMode);
+  params.set("zoom", state.zoom.toFixed(2));
+  for (const k of KNOB_KEYS) params.set(k, String(Math.round(state.knobs[k])));
+  if (state.autopilot) params.set("auto", "1");
+  if (state.seed !== null) params.set("seed", String(state.seed));
+  params.set("proj", state.projection);
+  if (state.mapping !== null) params.set("map", state.mapping);
+
+  const obs = state.observation;
+  if (obs) {
+    params.set("target", obs.targetName);
+    params.set("ra", obs.ra.toFixed(4));
+    params.set("dec", obs.dec.toFixed(4));
+    params.set("inst", obs.instrument);
+    params.set("filter", obs.filter);
+    params.set("type", obs.targetType);
+    if (obs.expType) params.set("exp", obs.expType);
+    if (obs.disperser) params.set("disp", obs.disperser);
+    if (obs.moving) params.set("mov", obs.unplaced ? "unplaced" : "1");
+  }
+  return params.toString();
+}
+
+// Unknown or malformed values are dropped, so callers only apply what the
+// link actually carried.
+export function decodeSessionState(
+  hash: string,
+  chordModes: readonly string[],
+): DecodedSessionState {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: DecodedSessionState = {};
+
+  const key = params.get("key")?.toUpperCase().replace("♯", "#");
+  const root = key ? NOTE_NAMES.indexOf(key) : -1;
+  if (root >= 0) state.chordRoot = root;
+
+  const mode = params.get("mode")?.toUpperCase();
+  if (mode && chordModes.includes(mode)) state.chordMode = mode;
+
+  const zoom = num(params, "zoom");
+  if (zoom !== null) state.zoom = zoom;
+
+  for (const k of KNOB_KEYS) {
+    const v = num(params, k);
+    if (v !== null) state.knobs = { ...state.knobs, [k]: clamp(v, 0, 100) };
+  }
+
+  if (params.has("auto")) state.autopilot = params.get("auto") === "1";
+
+  const seed = num(params, "seed");
+  if (seed !== null) state.seed = seed >>> 0;
+
+  const proj = params.get("proj");
+  const kind = PROJECTION_KINDS.find((k) => k === proj);
+  if (kind) state.projection = kind;
+
+  // Validated against the built-in profiles by the caller
+  const mapping = params.get("map");
+  if (mapping) state.mapping = mapping.toLowerCase();
+
+  const target = params.get("target");
+  const ra = num(params, "ra");
+  const dec = num(params, "dec");
+  if (target && ra !== null && dec !== null) {
+    state.observation = {
+      targetName: target,
+      ra: ((ra % 360) + 360) % 360,
+      dec: clamp(dec, -90, 90),
+      instrument: params.get("inst") ?? "Unknown",
+      filter: params.get("filter") ?? "Unknown",
+      targetType: params.get("type") ?? "unknown",
+      timestamp: new Date(),
+    };
+    const expType = params.get("exp");
+    const disperser = params.get("disp");
+    if (expType) state.observation.expType = expType;
+    if (disperser) state.observation.disperser = disperser;
+    const mov = params.get("mov");
+    if (mov === "1" || mov === "unplaced") state.observation.moving = true;
+    if (mov === "unplaced") state.observation.unplaced = true;
+  }
+
+  return state;
+}
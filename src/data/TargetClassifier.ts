@@ -0,0 +1,415 @@
+// TargetClassifier — one object class per observation, from what MAST gives
+// us: the proposer's target name (targprop) and targtype. JWST's targtype is
+// usually just FIXED / MOVING / GENERIC, so in order:
+//
+//   1. well-known targets by name (bundled below)      Jupiter → solar-system
+//   2. catalogue / survey naming patterns              WASP-39 → exoplanet-host
+//   3. SIMBAD-style object type codes in targtype      PN, HII, QSO, ClG …
+//   4. words in targtype or the name                   "galaxy", "nebula" …
+//   5. a star catalogue number                         HD 12345 → star
+//   6. targtype MOVING, or flagged moving by JWSTFetcher → solar-system
+//
+// Consumed through the mapping profiles' "objectClass" source (DataMapper
+// density, RadioJoveLayer tracks, GenerativeBackground scene).
+
+import type { ObservationData } from "./MastRows";
+
+export const OBJECT_CLASSES = [
+  "solar-system",
+  "exoplanet-host",
+  "star",
+  "star-forming-region",
+  "hii-region",
+  "planetary-nebula",
+  "supernova-remnant",
+  "nebula",
+  "galaxy",
+  "agn",
+  "galaxy-cluster",
+  "lensing-cluster",
+  "deep-field",
+  "unknown",
+] as const;
+export type ObjectClass = (typeof OBJECT_CLASSES)[number];
+
+// ── Well-known targets ────────────────────────────────────────────────────────
+// Matched as whole leading words of the target name, ignoring punctuation
+// and spacing ("NGC346-MIRI" is NGC 346; "NGC 3465" and "Iota Hor" aren't
+// NGC 346 or Io).
+
+const KNOWN_TARGETS: [ObjectClass, string[]][] = [
+  [
+    "solar-system",
+    [
+      "Mercury",
+      "Venus",
+      "Mars",
+      "Jupiter",
+      "Saturn",
+      "Uranus",
+      "Neptune",
+      "Pluto",
+      "Charon",
+      "Io",
+      "Europa",
+      "Ganymede",
+      "Callisto",
+      "Titan",
+      "Enceladus",
+      "Triton",
+      "Didymos",
+      "Dimorphos",
+      "Ceres",
+      "Vesta",
+      "Psyche",
+      "Eris",
+      "Makemake",
+      "Quaoar",
+      "Sedna",
+      "Arrokoth",
+    ],
+  ],
+  [
+    "exoplanet-host",
+    [
+      "TRAPPIST-1",
+      "HIP 65426",
+      "K2-18",
+      "GJ 1214",
+      "GJ 486",
+      "LHS 475",
+      "LTT 1445",
+      "LTT 9779",
+      "55 Cnc",
+      "HD 189733",
+      "HD 209458",
+      "HR 8799",
+      "VHS 1256",
+      "Beta Pic",
+      "Fomalhaut",
+      "AU Mic",
+      "Eps Eri",
+      "51 Eri",
+    ],
+  ],
+  ["star", ["WR 140", "WR 124", "Betelgeuse", "Eta Car", "Earendel"]],
+  [
+    "star-forming-region",
+    ["Rho Oph", "Serpens", "Chamaeleon", "HH 211", "HH 46", "L1527", "Taurus"],
+  ],
+  [
+    "hii-region",
+    [
+      "NGC 346",
+      "NGC 604",
+      "NGC 3603",
+      "NGC 3324",
+      "NGC 2070",
+      "30 Dor",
+      "Tarantula",
+      "Carina",
+      "Cosmic Cliffs",
+      "M16",
+      "Pillars",
+      "Eagle",
+      "M42",
+      "Orion Bar",
+      "Orion",
+      "Westerlund",
+      "N79",
+      "Sgr B2",
+    ],
+  ],
+  [
+    "planetary-nebula",
+    [
+      "NGC 3132",
+      "Southern Ring",
+      "NGC 6720",
+      "M57",
+      "Ring Nebula",
+      "NGC 6543",
+      "Cats Eye",
+      "NGC 7293",
+      "Helix",
+      "NGC 1514",
+      "NGC 7027",
+    ],
+  ],
+  [
+    "supernova-remnant",
+    ["Cas A", "Cassiopeia A", "Crab", "M1", "SN 1987A", "SN1987A", "N132D"],
+  ],
+  [
+    "lensing-cluster",
+    [
+      "SMACS 0723",
+      "SMACS J0723",
+      "SMACS",
+      "Abell 2744",
+      "A2744",
+      "Pandora",
+      "Abell 370",
+      "Abell S1063",
+      "Abell 1689",
+      "MACS 0416",
+      "MACS J0416",
+      "MACS 0647",
+      "MACS J0647",
+      "MACS J1149",
+      "El Gordo",
+      "RX J2129",
+      "WHL 0137",
+      "RCS 2327",
+    ],
+  ],
+  ["galaxy-cluster", ["Stephans Quintet", "HCG 92", "Virgo", "Coma"]],
+  [
+    "agn",
+    [
+      "NGC 1068",
+      "M77",
+      "Centaurus A",
+      "Cen A",
+      "NGC 5128",
+      "M87",
+      "NGC 4151",
+      "NGC 7469",
+      "NGC 7319",
+      "3C 273",
+      "Sgr A",
+    ],
+  ],
+  [
+    "galaxy",
+    [
+      "NGC 628",
+      "M74",
+      "Phantom",
+      "M51",
+      "Whirlpool",
+      "NGC 1365",
+      "NGC 1566",
+      "NGC 1433",
+      "NGC 1300",
+      "NGC 3256",
+      "NGC 7496",
+      "IC 5332",
+      "IC 1623",
+      "II Zw 096",
+      "Arp 220",
+      "M82",
+      "M83",
+      "Cartwheel",
+      "Wolf-Lundmark-Melotte",
+      "WLM",
+      "LMC",
+      "SMC",
+      "Andromeda",
+      "M31",
+      "M33",
+      "I Zw 18",
+    ],
+  ],
+  [
+    "deep-field",
+    [
+      "GOODS",
+      "CEERS",
+      "JADES",
+      "COSMOS",
+      "HUDF",
+      "UDF",
+      "PRIMER",
+      "UNCOVER",
+      "GLASS",
+      "NGDEEP",
+      "EGS",
+      "NEP",
+      "COSMOS-Web",
+      "Deep Field",
+    ],
+  ],
+];
+
+// "NGC346-MIRI" → "NGC 346 MIRI"
+function words(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/['’]/g, "")
+    .replace(/([A-Z])(\d)/g, "$1 $2")
+    .replace(/(\d)([A-Z])/g, "$1 $2")
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+}
+
+// Longest names first, so "Orion Bar" wins over "Orion"
+const KNOWN_INDEX: [string, ObjectClass][] = KNOWN_TARGETS.flatMap(
+  ([cls, names]) => names.map((n): [string, ObjectClass] => [words(n), cls]),
+).sort((a, b) => b[0].length - a[0].length);
+
+function knownTarget(name: string): ObjectClass | null {
+  const key = words(name);
+  for (const [known, cls] of KNOWN_INDEX) {
+    if (key === known || key.startsWith(known + " ")) return cls;
+  }
+  return null;
+}
+
+// ── Naming patterns ───────────────────────────────────────────────────────────
+
+const NAME_PATTERNS: [RegExp, ObjectClass][] = [
+  // Transit surveys — their names are exoplanet discoveries. General star
+  // catalogues (HD, HIP, GJ, TIC …) aren't: see catalogueStar
+  [
+    /^(WASP|HAT-?P|KELT|TOI|KEPLER|K2|XO|TRES|QATAR|KOI|CoRoT)[-_ ]?\d/i,
+    "exoplanet-host",
+  ],
+  // Comets (C/2017 K2, 12P) and numbered minor planets
+  [/^(C|P|D)\/\d{4}|^\d+P[-_ /]|^\(\d+\)/i, "solar-system"],
+  [/^(SN|SNR)[-_ ]?\d/i, "supernova-remnant"],
+  [/^(PN|PNG)[-_ ]/i, "planetary-nebula"],
+  [/^(MACS|ACT-CL|SPT-CL|PLCK|RXC|ABELL|ACO)[-_ ]?J?\d/i, "lensing-cluster"],
+  [/^(QSO|SDSS ?J\d+.*QSO|PKS|3C)[-_ ]?\d/i, "agn"],
+];
+
+function namePattern(name: string): ObjectClass | null {
+  const trimmed = name.trim();
+  for (const [pattern, cls] of NAME_PATTERNS) {
+    if (pattern.test(trimmed)) return cls;
+  }
+  return null;
+}
+
+// A star catalogue number (HD 12345, GJ 1214, TIC 2345678) says "a star" and
+// nothing more, so it only decides once KNOWN_TARGETS, the SIMBAD type and
+// keywords have had their say — the planet hosts among them are known targets
+const CATALOGUE_STAR =
+  /^(HD|HIP|GJ|GL|LHS|LTT|TIC|HR|BD|2MASS ?J?)[-_ ]?[+-]?\d/i;
+
+function catalogueStar(name: string): ObjectClass | null {
+  return CATALOGUE_STAR.test(name.trim()) ? "star" : null;
+}
+
+// ── SIMBAD object types ───────────────────────────────────────────────────────
+// The short codes, as they turn up in targtype (compared upper-cased)
+
+const SIMBAD_TYPES: Record<string, ObjectClass> = {
+  PN: "planetary-nebula",
+  "PN?": "planetary-nebula",
+  HII: "hii-region",
+  SNR: "supernova-remnant",
+  "SNR?": "supernova-remnant",
+  SFR: "star-forming-region",
+  YSO: "star-forming-region",
+  "Y*O": "star-forming-region",
+  TTS: "star-forming-region",
+  "OR*": "star-forming-region",
+  HH: "star-forming-region",
+  MOC: "star-forming-region",
+  CLD: "nebula",
+  ISM: "nebula",
+  RNE: "nebula",
+  DNE: "nebula",
+  BNE: "nebula",
+  G: "galaxy",
+  GIG: "galaxy",
+  GIP: "galaxy",
+  SBG: "galaxy",
+  BCG: "galaxy",
+  LSB: "galaxy",
+  EMG: "galaxy",
+  AGN: "agn",
+  QSO: "agn",
+  SY1: "agn",
+  SY2: "agn",
+  SYG: "agn",
+  BLA: "agn",
+  BLL: "agn",
+  LIN: "agn",
+  CLG: "galaxy-cluster",
+  GRG: "galaxy-cluster",
+  CGG: "galaxy-cluster",
+  SCG: "galaxy-cluster",
+  GIC: "galaxy-cluster",
+  "*": "star",
+  "**": "star",
+  "*I*": "star",
+  "CL*": "star",
+  OPC: "star",
+  GLC: "star",
+  "WR*": "star",
+  "WD*": "star",
+  "BD*": "star",
+  "PM*": "star",
+  PL: "exoplanet-host",
+  "PL?": "exoplanet-host",
+  "SS?": "solar-system",
+};
+
+function simbadType(targetType: string): ObjectClass | null {
+  const code = targetType.trim().toUpperCase();
+  return SIMBAD_TYPES[code] ?? null;
+}
+
+// ── Words ─────────────────────────────────────────────────────────────────────
+// The old substring matching, more specific words first
+
+const KEYWORDS: [string, ObjectClass][] = [
+  ["planetary nebula", "planetary-nebula"],
+  ["supernova", "supernova-remnant"],
+  ["remnant", "supernova-remnant"],
+  ["h ii", "hii-region"],
+  ["hii", "hii-region"],
+  ["star form", "star-forming-region"],
+  ["protostar", "star-forming-region"],
+  ["young stellar", "star-forming-region"],
+  ["exoplanet", "exoplanet-host"],
+  ["transit", "exoplanet-host"],
+  ["planet", "solar-system"],
+  ["comet", "solar-system"],
+  ["asteroid", "solar-system"],
+  ["satellite", "solar-system"],
+  ["quasar", "agn"],
+  ["seyfert", "agn"],
+  ["agn", "agn"],
+  ["lens", "lensing-cluster"],
+  ["galaxy cluster", "galaxy-cluster"],
+  ["cluster of galaxies", "galaxy-cluster"],
+  ["galaxy", "galaxy"],
+  ["galaxies", "galaxy"],
+  ["nebula", "nebula"],
+  ["star cluster", "star"],
+  ["stellar", "star"],
+  ["star", "star"],
+  ["deep field", "deep-field"],
+  ["field", "deep-field"],
+  ["cluster", "galaxy-cluster"],
+];
+
+function keyword(text: string): ObjectClass | null {
+  const l = text.toLowerCase();
+  for (const [word, cls] of KEYWORDS) {
+    if (l.includes(word)) return cls;
+  }
+  return null;
+}
+
+// ── Classifier ────────────────────────────────────────────────────────────────
+
+export function classifyTarget(
+  obs: Pick<ObservationData, "targetName" | "targetType" | "moving">,
+): ObjectClass {
+  return (
+    knownTarget(obs.targetName) ??
+    namePattern(obs.targetName) ??
+    simbadType(obs.targetType) ??
+    keyword(obs.targetType) ??
+    keyword(obs.targetName) ??
+    catalogueStar(obs.targetName) ??
+    (obs.moving || obs.targetType.trim().toUpperCase() === "MOVING"
+      ? "solar-system"
+      : null) ??
+    "unknown"
+  );
+}
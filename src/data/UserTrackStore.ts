@@ -0,0 +1,196 @@
+// UserTrackStore — signal tracks the listener adds to the SIGNAL rotation
+// (dropped or picked audio files, or URLs) with the object classes they
+// suit and a gain trim, kept in IndexedDB so they survive a reload. Files
+// are stored as Blobs; URL tracks stream from wherever they point, which
+// must allow CORS for the audio to be heard.
+
+import { OBJECT_CLASSES, type ObjectClass } from "./TargetClassifier";
+
+export interface UserTrack {
+  id: string;
+  name: string; // file name, or the URL's last path segment
+  file: Blob | null; // dropped / picked audio; null for a URL track
+  url: string | null; // remote audio; null for a file track
+  classes: ObjectClass[]; // object classes it suits; empty = every observation
+  gainDb: number; // trim, USER_TRACK_GAIN_MIN_DB to USER_TRACK_GAIN_MAX_DB
+  addedAt: number; // ms epoch
+}
+
+export const USER_TRACK_GAIN_MIN_DB = -24;
+export const USER_TRACK_GAIN_MAX_DB = 12;
+
+const DB_NAME = "webbwave";
+const DB_VERSION = 1;
+const STORE = "signalTracks";
+
+// ── IndexedDB ─────────────────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // A failed open is retried next time rather than remembered
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+// One request in its own transaction; resolves once the transaction commits
+async function run<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = makeRequest(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Records written by this version; anything else is skipped
+function isUserTrack(v: unknown): v is UserTrack {
+  if (typeof v !== "object" || v === null) return false;
+  const t = v as Partial<UserTrack>;
+  return (
+    typeof t.id === "string" &&
+    typeof t.name === "string" &&
+    (t.file instanceof Blob || typeof t.url === "string") &&
+    Array.isArray(t.classes) &&
+    typeof t.gainDb === "number"
+  );
+}
+
+// Oldest first
+export async function listUserTracks(): Promise<UserTrack[]> {
+  const all = await run<unknown[]>("readonly", (s) => s.getAll());
+  return all.filter(isUserTrack).sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export async function saveUserTrack(track: UserTrack): Promise<void> {
+  await run("readwrite", (s) => s.put(track));
+}
+
+export async function deleteUserTrack(id: string): Promise<void> {
+  await run("readwrite", (s) => s.delete(id));
+  releaseUserTrackSource(id);
+}
+
+// ── New tracks ────────────────────────────────────────────────────────────────
+
+// Browsers leave the MIME type empty for some audio (.flac and .opus on
+// several platforms), so a file is also taken by its extension
+export const AUDIO_FILE_EXTENSIONS = [
+  ".mp3",
+  ".wav",
+  ".ogg",
+  ".oga",
+  ".opus",
+  ".flac",
+  ".m4a",
+  ".aac",
+  ".webm",
+  ".aif",
+  ".aiff",
+];
+
+function isAudioFile(file: File): boolean {
+  if (file.type.startsWith("audio/")) return true;
+  const name = file.name.toLowerCase();
+  return (
+    file.type === "" && AUDIO_FILE_EXTENSIONS.some((ext) => name.endsWith(ext))
+  );
+}
+
+// crypto.randomUUID only exists in secure contexts; the page can also be
+// served over plain http (a LAN address in dev), where a timestamp plus
+// random digits is unique enough for one listener's tracks
+function newTrackId(): string {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// The URL's last path segment, readable; left as it is when it isn't valid
+// percent-encoding (a stray %)
+function urlTrackName(url: URL): string {
+  const segment = url.pathname.split("/").pop() || url.host;
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export function userTrackFromFile(file: File): UserTrack {
+  if (!isAudioFile(file)) {
+    throw new Error(`${file.name} is not an audio file`);
+  }
+  return {
+    id: newTrackId(),
+    name: file.name,
+    file,
+    url: null,
+    classes: [],
+    gainDb: 0,
+    addedAt: Date.now(),
+  };
+}
+
+export function userTrackFromUrl(raw: string): UserTrack {
+  let url: URL;
+  try {
+    url = new URL(raw.trim(), location.href);
+  } catch {
+    throw new Error("not a valid URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("URL must be http(s)");
+  }
+  return {
+    id: newTrackId(),
+    name: urlTrackName(url),
+    file: null,
+    url: url.href,
+    classes: [],
+    gainDb: 0,
+    addedAt: Date.now(),
+  };
+}
+
+export function isObjectClass(v: string): v is ObjectClass {
+  return (OBJECT_CLASSES as readonly string[]).includes(v);
+}
+
+// ── Playback ──────────────────────────────────────────────────────────────────
+// Stored files play from object URLs, made once per track and revoked when
+// the track is deleted.
+
+const objectUrls = new Map<string, string>();
+
+export function userTrackSource(track: UserTrack): string {
+  if (track.url) return track.url;
+  let src = objectUrls.get(track.id);
+  if (!src) {
+    src = URL.createObjectURL(track.file!);
+    objectUrls.set(track.id, src);
+  }
+  return src;
+}
+
+function releaseUserTrackSource(id: string): void {
+  const src = objectUrls.get(id);
+  if (!src) return;
+  URL.revokeObjectURL(src);
+  objectUrls.delete(id);
+}
@@ -2,18 +2,51 @@ import "./style.css";
 import {
   JWSTFetcher,
   DEFAULT_OBSERVATION,
+  fetchObservationRange,
+  type ConnectionStatus,
   type ObservationData,
 } from "./data/JWSTFetcher";
 import { AmbientEngine, CHORD_MODE_NAMES } from "./audio/AmbientEngine";
 import { RadioJoveLayer } from "./audio/RadioJoveLayer";
+import type { SignalTrack } from "./audio/TrackManifest";
+import { ImageSonifier } from "./audio/ImageSonifier";
+import {
+  BUILTIN_PROFILES,
+  CLASSIC_PROFILE,
+  parseMappingProfile,
+  type MappingProfile,
+} from "./audio/MappingProfile";
+import { exportSessionWav } from "./audio/SessionExporter";
+import { parseSeed, seedFromObservation } from "./audio/SeededRandom";
+import { decodeSessionState, encodeSessionState } from "./data/SessionState";
+import { userTrackSource, type UserTrack } from "./data/UserTrackStore";
 import { SpaceRenderer } from "./viz/SpaceRenderer";
 import { GenerativeBackground } from "./viz/GenerativeBackground";
-import { InfoOverlay } from "./ui/InfoOverlay";
+import {
+  PROJECTION_KINDS,
+  PROJECTION_LABELS,
+  angularSeparation,
+  unprojectFromScreen,
+  type ProjectionKind,
+  type SkyView,
+} from "./viz/SkyProjection";
+import { InfoOverlay, formatAge } from "./ui/InfoOverlay";
 import { InfoPanel } from "./ui/InfoPanel";
+import { Timeline } from "./ui/Timeline";
+import { TrackPanel } from "./ui/TrackPanel";
 import { inject } from "@vercel/analytics";
 
 inject();
 
+// Offline playback and install as an app (public/sw.js); dev always fetches
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((err) => console.warn("Service worker not registered", err));
+  });
+}
+
 // ── DOM ──────────────────────────────────────────────────────────────────────
 
 const canvas = document.getElementById("space-canvas") as HTMLCanvasElement;
@@ -39,7 +72,7 @@ if (isiOSLike) {
 // Status badge
 const status = document.createElement("div");
 status.id = "status";
-status.textContent = "LIVE · JAMES WEBB SPACE TELESCOPE";
+status.textContent = "CONNECTING · JAMES WEBB SPACE TELESCOPE";
 document.getElementById("app")!.appendChild(status);
 
 // JWST badge
@@ -63,6 +96,18 @@ autopilotBtn.setAttribute("aria-label", "Toggle Autopilot");
 autopilotBtn.setAttribute("aria-pressed", "false");
 document.getElementById("app")!.appendChild(autopilotBtn);
 
+const exportBtn = document.createElement("button");
+exportBtn.id = "export-btn";
+exportBtn.textContent = "EXPORT";
+exportBtn.setAttribute("aria-label", "Export a 10 minute WAV render");
+document.getElementById("app")!.appendChild(exportBtn);
+
+const shareBtn = document.createElement("button");
+shareBtn.id = "share-btn";
+shareBtn.textContent = "SHARE";
+shareBtn.setAttribute("aria-label", "Copy a link to this session");
+document.getElementById("app")!.appendChild(shareBtn);
+
 // Controls panel
 const controls = document.createElement("div");
 controls.id = "controls";
@@ -115,6 +160,19 @@ controls.innerHTML = `
     <div class="mode-row" id="mode-row">
       ${CHORD_MODE_NAMES.map((m, i) => `<button class="mode-btn${i === 0 ? " active" : ""}" data-mode="${m}">${m}</button>`).join("")}
     </div>
+    <div class="mode-row seed-row">
+      <input type="text" id="seed-input" class="seed-input" placeholder="SEED" spellcheck="false" autocomplete="off" aria-label="Seed (blank = random)" />
+      <button class="mode-btn" id="seed-target-btn" title="Seed from the current target">TARGET</button>
+    </div>
+    <div class="mode-row" id="projection-row">
+      ${PROJECTION_KINDS.map((p, i) => `<button class="mode-btn${i === 0 ? " active" : ""}" data-projection="${p}">${PROJECTION_LABELS[p]}</button>`).join("")}
+    </div>
+    <div class="mode-row" id="profile-row">
+      ${BUILTIN_PROFILES.map((p, i) => `<button class="mode-btn${i === 0 ? " active" : ""}" data-profile="${p.name}">${p.name.toUpperCase()}</button>`).join("")}
+      <button class="mode-btn" data-profile="user" id="profile-user-btn" hidden></button>
+      <button class="mode-btn" id="profile-file-btn" title="Load a mapping profile (JSON)">JSON…</button>
+      <input type="file" id="profile-file" accept="application/json,.json" hidden />
+    </div>
   </div>
 `;
 document.getElementById("app")!.appendChild(controls);
@@ -135,7 +193,31 @@ const overlay = new InfoOverlay(overlayContainer);
 const engine = new AmbientEngine();
 const signalLayer = new RadioJoveLayer();
 const fetcher = new JWSTFetcher();
+const imageSonifier = new ImageSonifier();
 new InfoPanel(document.getElementById("app")!);
+generativeBg.setImageListener((image, credit) => {
+  overlay.setImageCredit(credit);
+  imageSonifier.setImage(image);
+  sonifyImageAt(sonifyX, sonifyY);
+});
+signalLayer.setTrackListener((track) => {
+  overlay.setSignalCredit(
+    track && (track.credit ? `${track.title} · ${track.credit}` : track.title),
+  );
+});
+
+// Where the image is read from: the reticle while aiming, else the centre
+let sonifyX = 0.5;
+let sonifyY = 0.5;
+
+function sonifyImageAt(x: number, y: number) {
+  sonifyX = x;
+  sonifyY = y;
+  const point = generativeBg.imagePointAt(x, y);
+  engine.setImageFeatures(
+    point ? imageSonifier.sample(point.u, point.v) : null,
+  );
+}
 
 // Show default observation immediately (no audio yet)
 renderer.setObservation(DEFAULT_OBSERVATION);
@@ -208,15 +290,26 @@ let chordMode = "MAJ";
 const piano = document.getElementById("piano")!;
 const modeRow = document.getElementById("mode-row")!;
 
+function setChordState(root: number, mode: string) {
+  chordRoot = root;
+  chordMode = mode;
+  piano
+    .querySelectorAll<HTMLElement>(".pkey")
+    .forEach((b) =>
+      b.classList.toggle("active", Number(b.dataset.semi) === root),
+    );
+  modeRow
+    .querySelectorAll<HTMLElement>(".mode-btn")
+    .forEach((b) => b.classList.toggle("active", b.dataset.mode === mode));
+  engine.setChord(chordRoot, chordMode);
+}
+
 piano.addEventListener("click", (e) => {
   const btn = (e.target as HTMLElement).closest(
     ".pkey[data-semi]",
   ) as HTMLElement | null;
   if (!btn) return;
-  chordRoot = Number(btn.dataset.semi);
-  piano.querySelectorAll(".pkey").forEach((b) => b.classList.remove("active"));
-  btn.classList.add("active");
-  engine.setChord(chordRoot, chordMode);
+  setChordState(Number(btn.dataset.semi), chordMode);
 });
 
 modeRow.addEventListener("click", (e) => {
@@ -224,22 +317,116 @@ modeRow.addEventListener("click", (e) => {
     ".mode-btn",
   ) as HTMLElement | null;
   if (!btn) return;
-  chordMode = btn.dataset.mode ?? "MAJ";
-  modeRow
-    .querySelectorAll(".mode-btn")
-    .forEach((b) => b.classList.remove("active"));
-  btn.classList.add("active");
-  engine.setChord(chordRoot, chordMode);
+  setChordState(chordRoot, btn.dataset.mode ?? "MAJ");
+});
+
+// Seed — blank runs free; any value makes the graph reproducible. The graph's
+// random structure is built on START, so a new seed is heard from the next
+// start (and in exports straight away).
+let sessionSeed: number | null = null;
+
+const seedInput = document.getElementById("seed-input") as HTMLInputElement;
+const seedTargetBtn = document.getElementById("seed-target-btn")!;
+
+function applySeed(seed: number | null) {
+  sessionSeed = seed;
+  engine.setSeed(seed);
+  signalLayer.setSeed(seed);
+}
+
+seedInput.addEventListener("change", () => {
+  applySeed(parseSeed(seedInput.value));
+});
+
+// Mapping profile — how observation data becomes sound and picture. Sound
+// designers can load a JSON profile (see MappingProfile.ts); it's kept in
+// localStorage so it survives a reload.
+const PROFILE_STORAGE_KEY = "webbwave.mappingProfile";
+let mappingProfile: MappingProfile = CLASSIC_PROFILE;
+let userProfile: MappingProfile | null = null;
+
+const profileRow = document.getElementById("profile-row")!;
+const profileUserBtn = document.getElementById("profile-user-btn")!;
+const profileFileBtn = document.getElementById("profile-file-btn")!;
+const profileFile = document.getElementById("profile-file") as HTMLInputElement;
+
+function applyProfile(profile: MappingProfile) {
+  mappingProfile = profile;
+  engine.setProfile(profile);
+  signalLayer.setProfile(profile);
+  generativeBg.setProfile(profile);
+  const key = profile === userProfile ? "user" : profile.name;
+  profileRow
+    .querySelectorAll<HTMLElement>(".mode-btn[data-profile]")
+    .forEach((b) => b.classList.toggle("active", b.dataset.profile === key));
+  if (!aimActive && !autopilotActive) showHome();
+}
+
+function setUserProfile(profile: MappingProfile) {
+  userProfile = profile;
+  profileUserBtn.textContent = profile.name.toUpperCase().slice(0, 12);
+  profileUserBtn.hidden = false;
+}
+
+function restoreUserProfile() {
+  const saved = localStorage.getItem(PROFILE_STORAGE_KEY);
+  if (!saved) return;
+  try {
+    setUserProfile(parseMappingProfile(JSON.parse(saved)));
+  } catch (err) {
+    console.warn("Saved mapping profile is invalid, discarding", err);
+    localStorage.removeItem(PROFILE_STORAGE_KEY);
+  }
+}
+
+profileRow.addEventListener("click", (e) => {
+  const btn = (e.target as HTMLElement).closest(
+    ".mode-btn[data-profile]",
+  ) as HTMLElement | null;
+  if (!btn) return;
+  const key = btn.dataset.profile;
+  const profile =
+    key === "user" ? userProfile : BUILTIN_PROFILES.find((p) => p.name === key);
+  if (profile) applyProfile(profile);
+});
+
+profileFileBtn.addEventListener("click", () => profileFile.click());
+
+profileFile.addEventListener("change", async () => {
+  const file = profileFile.files?.[0];
+  profileFile.value = "";
+  if (!file) return;
+  try {
+    const text = await file.text();
+    const profile = parseMappingProfile(JSON.parse(text));
+    localStorage.setItem(PROFILE_STORAGE_KEY, text);
+    setUserProfile(profile);
+    applyProfile(profile);
+  } catch (err) {
+    console.warn("Mapping profile rejected", err);
+    status.textContent = `PROFILE ERROR · ${err instanceof Error ? err.message : String(err)}`;
+  }
+});
+
+seedTargetBtn.addEventListener("click", () => {
+  const seed = seedFromObservation(aimedObservation ?? lastObservation);
+  seedInput.value = String(seed);
+  applySeed(seed);
 });
 
 // ── Aim / sky-drag ────────────────────────────────────────────────────────────
 
 let aimActive = false;
 let returnTimer: ReturnType<typeof setTimeout> | null = null;
-let lastLiveStatus = "LIVE · JAMES WEBB SPACE TELESCOPE";
+// Live feed state; null until the fetcher's first answer
+let connection: ConnectionStatus | null = null;
 let lastObservation: ObservationData = DEFAULT_OBSERVATION;
 const recentObservations: ObservationData[] = [DEFAULT_OBSERVATION];
 let aimedObservation: ObservationData | null = null;
+// Held in place of live data (restored from a shared link, or the time
+// machine's current replay step) until released
+let lockedObservation: ObservationData | null = null;
+let lockedStatus = "";
 let autopilotActive = false;
 let autopilotPaused = false;
 let autopilotRaf: number | null = null;
@@ -247,6 +434,61 @@ let autopilotResumeTimer: ReturnType<typeof setTimeout> | null = null;
 let autopilotZoom = 1.0;
 let autopilotArmTimer: ReturnType<typeof setTimeout> | null = null;
 let userInteractedEarly = false;
+// Press position, to tell a click on a marker from a drag
+let pressX = 0;
+let pressY = 0;
+const CLICK_SLOP_PX = 6;
+
+// The renderer keeps this array, so markers follow addRecentObservation
+renderer.setMarkers(recentObservations);
+
+function homeObservation(): ObservationData {
+  return lockedObservation ?? lastObservation;
+}
+
+// e.g. "LIVE · NGC 628 · NIRCam · 4 MIN AGO", "OFFLINE · … · 3 H AGO"
+function liveStatus(): string {
+  if (!connection) return "CONNECTING · JAMES WEBB SPACE TELESCOPE";
+  const age = connection.fetchedAt
+    ? formatAge(Date.now() - connection.fetchedAt.getTime())
+    : "no live data";
+  return [
+    connection.state.toUpperCase(),
+    lastObservation.targetName.toUpperCase(),
+    lastObservation.instrument,
+    age.toUpperCase(),
+  ].join(" · ");
+}
+
+function homeStatus(): string {
+  return lockedObservation ? lockedStatus : liveStatus();
+}
+
+function showHome() {
+  const home = homeObservation();
+  status.textContent = homeStatus();
+  centreView(home);
+  renderer.setHighlightedObservation(null);
+  engine.updateFromData(home);
+  sonifyImageAt(0.5, 0.5);
+  renderer.setObservation(home);
+  generativeBg.setObservation(home);
+  overlay.update(home);
+  signalLayer.setObservation(home);
+}
+
+function holdObservation(obs: ObservationData, statusText: string) {
+  lockedObservation = obs;
+  lockedStatus = statusText;
+  addRecentObservation(obs);
+  if (!aimActive && !autopilotActive) showHome();
+}
+
+function releaseHold() {
+  if (!lockedObservation) return;
+  lockedObservation = null;
+  if (!aimActive && !autopilotActive) showHome();
+}
 
 function setAutopilotState(active: boolean): void {
   autopilotBtn.classList.toggle("active", active);
@@ -303,13 +545,17 @@ function stopAutopilot(): void {
     autopilotResumeTimer = null;
   }
   renderer.setAimPoint(null, null);
+  generativeBg.setAimPoint(null, null);
   signalLayer.endScan();
-  signalLayer.setObservation(lastObservation);
+  const home = homeObservation();
+  signalLayer.setObservation(home);
   if (!aimActive) {
-    status.textContent = lastLiveStatus;
-    renderer.setObservation(lastObservation);
-    generativeBg.setObservation(lastObservation);
-    overlay.resetCoords(lastObservation.ra, lastObservation.dec);
+    status.textContent = homeStatus();
+    centreView(home);
+    renderer.setHighlightedObservation(null);
+    renderer.setObservation(home);
+    generativeBg.setObservation(home);
+    overlay.resetCoords(home);
   }
 }
 
@@ -359,24 +605,86 @@ function clampZoom(z: number) {
   return Math.max(0.5, Math.min(3.0, z));
 }
 
+function zoomToNorm(z: number): number {
+  return 1 - (z - 0.5) / 2.5; // remap [0.5, 3.0] → [1, 0]: zoomed out = full chord
+}
+
 function applyZoom(z: number) {
   zoomLevel = z;
   renderer.setZoom(z);
   generativeBg.setZoom(z);
-  const zoomNorm = 1 - (z - 0.5) / 2.5; // remap [0.5, 3.0] → [1, 0]: zoomed out = full chord
-  engine.setZoom(zoomNorm);
+  engine.setZoom(zoomToNorm(z));
+  pushView();
 }
 
+// ── Sky projection ────────────────────────────────────────────────────────────
+// One view drives the star field, the background and the aim mapping, so the
+// RA/Dec under the pointer is the RA/Dec you hear.
+
+const projectionRow = document.getElementById("projection-row")!;
+let projection: ProjectionKind = "gnomonic";
+let viewCentre = { ra: DEFAULT_OBSERVATION.ra, dec: DEFAULT_OBSERVATION.dec };
+
+function skyView(): SkyView {
+  return {
+    projection,
+    ra: viewCentre.ra,
+    dec: viewCentre.dec,
+    zoom: zoomLevel,
+  };
+}
+
+function pushView() {
+  const view = skyView();
+  renderer.setView(view);
+  generativeBg.setView(view);
+}
+
+// The view stays put while aiming; it recentres when the home observation is
+// shown again. A target with no position (see ObservationData.unplaced)
+// leaves it where it is.
+function centreView(obs: ObservationData) {
+  if (obs.unplaced) return;
+  viewCentre = { ra: obs.ra, dec: obs.dec };
+  pushView();
+}
+
+function setProjection(kind: ProjectionKind) {
+  projection = kind;
+  projectionRow
+    .querySelectorAll<HTMLElement>(".mode-btn")
+    .forEach((b) =>
+      b.classList.toggle("active", b.dataset.projection === kind),
+    );
+  pushView();
+}
+
+projectionRow.addEventListener("click", (e) => {
+  const btn = (e.target as HTMLElement).closest(
+    ".mode-btn[data-projection]",
+  ) as HTMLElement | null;
+  if (!btn) return;
+  setProjection(btn.dataset.projection as ProjectionKind);
+});
+
+pushView();
+
+// Null off the edge of the projection (outside the Hammer–Aitoff ellipse)
 function screenToSky(
   clientX: number,
   clientY: number,
-): { ra: number; dec: number } {
-  const ra = (clientX / window.innerWidth) * 360;
-  const dec = 90 - (clientY / window.innerHeight) * 180;
-  return { ra, dec };
+): { ra: number; dec: number } | null {
+  return unprojectFromScreen(
+    skyView(),
+    clientX,
+    clientY,
+    window.innerWidth,
+    window.innerHeight,
+  );
 }
 
 function addRecentObservation(obs: ObservationData) {
+  if (obs.id && recentObservations.some((o) => o.id === obs.id)) return;
   const last = recentObservations[recentObservations.length - 1];
   const sameAsLast =
     last &&
@@ -389,18 +697,12 @@ function addRecentObservation(obs: ObservationData) {
   if (recentObservations.length > 64) recentObservations.shift();
 }
 
-function raDeltaDeg(a: number, b: number): number {
-  const d = Math.abs(a - b) % 360;
-  return d > 180 ? 360 - d : d;
-}
-
 function nearestObservation(ra: number, dec: number): ObservationData {
   let best = recentObservations[0];
   let bestScore = Number.POSITIVE_INFINITY;
   for (const obs of recentObservations) {
-    const dRa = raDeltaDeg(ra, obs.ra) / 180;
-    const dDec = Math.abs(dec - obs.dec) / 180;
-    const score = dRa * dRa + dDec * dDec;
+    if (obs.unplaced) continue;
+    const score = angularSeparation(ra, dec, obs.ra, obs.dec);
     if (score < bestScore) {
       bestScore = score;
       best = obs;
@@ -410,22 +712,26 @@ function nearestObservation(ra: number, dec: number): ObservationData {
 }
 
 function onAimMove(clientX: number, clientY: number) {
-  const { ra, dec } = screenToSky(clientX, clientY);
+  const sky = screenToSky(clientX, clientY);
+  if (!sky) return;
+  const { ra, dec } = sky;
   const nx = clientX / window.innerWidth;
   const ny = clientY / window.innerHeight;
 
   const obs = nearestObservation(ra, dec);
   if (obs !== aimedObservation) {
     aimedObservation = obs;
+    renderer.setHighlightedObservation(obs);
     renderer.setObservation(obs);
     generativeBg.setObservation(obs);
   }
 
   renderer.setAimCoords(ra, dec);
   renderer.setAimPoint(nx, ny);
-  generativeBg.setAimCoords(ra, dec);
+  generativeBg.setAimPoint(nx, ny);
 
   if (engine.isStarted) engine.updateFromCoords(ra, dec);
+  sonifyImageAt(nx, ny);
   signalLayer.scanAtCoords(ra, dec);
 
   overlay.setCoords(ra, dec);
@@ -444,6 +750,8 @@ function onAimStart(clientX: number, clientY: number) {
   pauseAutopilotForInteraction();
   aimActive = true;
   aimedObservation = null;
+  // Aiming elsewhere releases a held observation (but not a running replay)
+  if (!timeline.isActive) lockedObservation = null;
   canvas.classList.add("aiming");
   signalLayer.beginScan();
   onAimMove(clientX, clientY);
@@ -453,33 +761,47 @@ function onAimEnd() {
   aimActive = false;
   canvas.classList.remove("aiming");
   renderer.setAimPoint(null, null);
+  generativeBg.setAimPoint(null, null);
 
   returnTimer = setTimeout(() => {
     if (autopilotActive) {
       aimActive = false;
       renderer.setAimPoint(null, null);
+      generativeBg.setAimPoint(null, null);
       resumeAutopilot();
       returnTimer = null;
       return;
     }
-    status.textContent = lastLiveStatus;
-    engine.updateFromData(lastObservation);
-    renderer.setObservation(lastObservation);
-    generativeBg.setObservation(lastObservation);
-    overlay.resetCoords(lastObservation.ra, lastObservation.dec);
     signalLayer.endScan();
-    signalLayer.setObservation(lastObservation);
+    showHome();
     aimedObservation = null;
     returnTimer = null;
   }, 3000);
 }
 
+// Clicking a marker holds its observation until the next drag
+function lockOntoObservation(obs: ObservationData) {
+  if (returnTimer !== null) {
+    clearTimeout(returnTimer);
+    returnTimer = null;
+  }
+  if (autopilotActive) stopAutopilot();
+  signalLayer.endScan();
+  aimedObservation = null;
+  holdObservation(
+    obs,
+    `LOCK · ${obs.targetName.toUpperCase()} · ${obs.instrument}`,
+  );
+}
+
 canvas.addEventListener("pointerdown", (e) => {
   // Only drag on the canvas itself, not bubbled from UI
   if (e.target !== canvas) return;
   // Ignore second touch finger (pinch gesture — handled by touch events)
   if (e.pointerType === "touch" && !e.isPrimary) return;
   canvas.setPointerCapture(e.pointerId);
+  pressX = e.clientX;
+  pressY = e.clientY;
   onAimStart(e.clientX, e.clientY);
 });
 
@@ -487,9 +809,17 @@ canvas.addEventListener("pointermove", (e) => {
   if (e.pointerType === "touch" && !e.isPrimary) return;
   if (aimActive) {
     onAimMove(e.clientX, e.clientY);
-  } else if (status.classList.contains("visible")) {
+    return;
+  }
+  canvas.classList.toggle(
+    "over-marker",
+    renderer.markerAt(e.clientX, e.clientY) !== null,
+  );
+  if (status.classList.contains("visible")) {
     // Show live sky coords on hover even without dragging
-    const { ra, dec } = screenToSky(e.clientX, e.clientY);
+    const sky = screenToSky(e.clientX, e.clientY);
+    if (!sky) return;
+    const { ra, dec } = sky;
     overlay.setCoords(ra, dec);
     const raSgn = ra.toFixed(1);
     const decSgn = (dec >= 0 ? "+" : "") + dec.toFixed(1);
@@ -499,14 +829,19 @@ canvas.addEventListener("pointermove", (e) => {
 
 canvas.addEventListener("pointerleave", () => {
   if (!aimActive && status.classList.contains("visible")) {
-    status.textContent = lastLiveStatus;
-    overlay.resetCoords(lastObservation.ra, lastObservation.dec);
+    const home = homeObservation();
+    status.textContent = homeStatus();
+    overlay.resetCoords(home);
   }
 });
 
-canvas.addEventListener("pointerup", () => {
+canvas.addEventListener("pointerup", (e) => {
   if (!aimActive) return;
+  const isClick =
+    Math.hypot(e.clientX - pressX, e.clientY - pressY) <= CLICK_SLOP_PX;
+  const marker = isClick ? renderer.markerAt(e.clientX, e.clientY) : null;
   onAimEnd();
+  if (marker) lockOntoObservation(marker);
 });
 
 canvas.addEventListener("pointercancel", () => {
@@ -603,35 +938,51 @@ async function startAudio() {
   engine.start(audioCtx);
 
   // Connect Signal layer into the same audio graph (routes to destination directly)
-  signalLayer.connect(audioCtx, audioCtx.destination);
+  void signalLayer.connect(audioCtx, audioCtx.destination);
   signalLayer.setSpace(Number(spaceSlider.value) / 100);
   signalLayer.setColour(Number(colourSlider.value) / 100);
   signalLayer.setScatter(Number(scatterSlider.value) / 100);
   signalLayer.setPulse(Number(pulseSlider.value) / 100);
   signalLayer.setLevel(mapSignalSlider(Number(signalSlider.value) / 100));
-  signalLayer.setObservation(DEFAULT_OBSERVATION);
+  signalLayer.setObservation(homeObservation());
 
-  // Apply default data immediately so audio starts
-  engine.updateFromData(DEFAULT_OBSERVATION);
+  // Apply default (or shared) data immediately so audio starts
+  engine.updateFromData(homeObservation());
+  sonifyImageAt(sonifyX, sonifyY);
 
   // Begin live JWST polling
-  fetcher.start((data) => {
-    lastObservation = data;
-    addRecentObservation(data);
-    lastLiveStatus = `LIVE · ${data.targetName.toUpperCase()} · ${data.instrument}`;
-
-    // Only push updates to audio/visuals if user isn't manually aiming
-    if (!aimActive && !autopilotActive) {
-      engine.updateFromData(data);
-      renderer.setObservation(data);
-      generativeBg.setObservation(data);
-      overlay.update(data);
-      signalLayer.setObservation(data);
-      status.textContent = lastLiveStatus;
-    } else if (autopilotActive) {
-      overlay.update(data);
-    }
-  });
+  fetcher.start(
+    (data) => {
+      lastObservation = data;
+      addRecentObservation(data);
+
+      // Only push updates to audio/visuals if user isn't manually aiming
+      // or holding a locked observation
+      if (!aimActive && !autopilotActive && !lockedObservation) {
+        engine.updateFromData(data);
+        centreView(data);
+        renderer.setObservation(data);
+        generativeBg.setObservation(data);
+        overlay.update(data);
+        signalLayer.setObservation(data);
+        status.textContent = liveStatus();
+      } else if (autopilotActive) {
+        overlay.update(data);
+      }
+    },
+    (batch) => {
+      // Every science frame in the poll becomes an aim-mode neighbour
+      for (const obs of batch) addRecentObservation(obs);
+    },
+    (update) => {
+      connection = update;
+      status.dataset.connection = update.state;
+      overlay.setConnection(update);
+      if (!aimActive && !autopilotActive && !lockedObservation) {
+        status.textContent = liveStatus();
+      }
+    },
+  );
 
   // Show status and flip button to stop mode
   status.classList.add("visible");
@@ -639,6 +990,13 @@ async function startAudio() {
   startBtn.classList.add("stop-mode");
   startBtn.classList.remove("hidden");
 
+  // A shared link says explicitly whether autopilot was on
+  if (sharedAutopilot !== null) {
+    if (sharedAutopilot) startAutopilot();
+    sharedAutopilot = null;
+    return;
+  }
+
   // Auto-enable autopilot after 5s only if user has not panned/zoomed.
   autopilotArmTimer = setTimeout(() => {
     autopilotArmTimer = null;
@@ -663,6 +1021,190 @@ function stopAudio() {
   iosHeadphonesTip?.classList.remove("hidden");
 }
 
+// ── Export ────────────────────────────────────────────────────────────────────
+
+const EXPORT_DURATION_S = 10 * 60;
+let exporting = false;
+
+async function exportSession() {
+  if (exporting) return;
+  exporting = true;
+  exportBtn.disabled = true;
+  exportBtn.textContent = "RENDERING…";
+  const observation = aimedObservation ?? lastObservation;
+  try {
+    const wav = await exportSessionWav(
+      {
+        observation,
+        chordRoot,
+        chordMode,
+        zoomNorm: zoomToNorm(zoomLevel),
+        volume: Number(volumeSlider.value) / 100,
+        space: Number(spaceSlider.value) / 100,
+        colour: Number(colourSlider.value) / 100,
+        scatter: Number(scatterSlider.value) / 100,
+        pulse: Number(pulseSlider.value) / 100,
+        signalLevel: mapSignalSlider(Number(signalSlider.value) / 100),
+        seed: sessionSeed,
+        profile: mappingProfile,
+        extraTracks: userSignalTracks,
+      },
+      EXPORT_DURATION_S,
+    );
+    const slug = observation.targetName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    const url = URL.createObjectURL(wav);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `webbwave-${slug || "session"}-${EXPORT_DURATION_S / 60}min.wav`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+  } catch (err) {
+    console.warn("Export failed", err);
+  } finally {
+    exporting = false;
+    exportBtn.disabled = false;
+    exportBtn.textContent = "EXPORT";
+  }
+}
+
+exportBtn.addEventListener("click", () => {
+  exportSession();
+});
+
+// ── Share / restore ───────────────────────────────────────────────────────────
+
+let sharedAutopilot: boolean | null = null;
+let shareResetTimer: ReturnType<typeof setTimeout> | null = null;
+
+function currentSessionLink(): string {
+  const hash = encodeSessionState({
+    chordRoot,
+    chordMode,
+    zoom: zoomLevel,
+    knobs: {
+      volume: Number(volumeSlider.value),
+      space: Number(spaceSlider.value),
+      colour: Number(colourSlider.value),
+      scatter: Number(scatterSlider.value),
+      pulse: Number(pulseSlider.value),
+      signal: Number(signalSlider.value),
+    },
+    autopilot: autopilotActive,
+    seed: sessionSeed,
+    projection,
+    mapping: mappingProfile === userProfile ? null : mappingProfile.name,
+    observation: aimedObservation ?? homeObservation(),
+  });
+  return `${location.origin}${location.pathname}#${hash}`;
+}
+
+async function shareSession() {
+  const link = currentSessionLink();
+  history.replaceState(null, "", link);
+  try {
+    await navigator.clipboard.writeText(link);
+    shareBtn.textContent = "COPIED";
+  } catch {
+    window.prompt("Copy this link", link);
+  }
+  if (shareResetTimer !== null) clearTimeout(shareResetTimer);
+  shareResetTimer = setTimeout(() => {
+    shareBtn.textContent = "SHARE";
+    shareResetTimer = null;
+  }, 1800);
+}
+
+shareBtn.addEventListener("click", () => {
+  shareSession();
+});
+
+function restoreSessionFromHash() {
+  if (location.hash.length <= 1) return;
+  const shared = decodeSessionState(location.hash, CHORD_MODE_NAMES);
+
+  const sliders = {
+    volume: volumeSlider,
+    space: spaceSlider,
+    colour: colourSlider,
+    scatter: scatterSlider,
+    pulse: pulseSlider,
+    signal: signalSlider,
+  };
+  for (const [key, value] of Object.entries(shared.knobs ?? {})) {
+    sliders[key as keyof typeof sliders].value = String(value);
+  }
+
+  if (shared.chordRoot !== undefined || shared.chordMode !== undefined) {
+    setChordState(shared.chordRoot ?? chordRoot, shared.chordMode ?? chordMode);
+  }
+  if (shared.zoom !== undefined) applyZoom(clampZoom(shared.zoom));
+  if (shared.projection !== undefined) setProjection(shared.projection);
+  const sharedProfile = BUILTIN_PROFILES.find((p) => p.name === shared.mapping);
+  if (sharedProfile) applyProfile(sharedProfile);
+  if (shared.seed !== undefined) {
+    seedInput.value = shared.seed === null ? "" : String(shared.seed);
+    applySeed(shared.seed);
+  }
+  if (shared.autopilot !== undefined) sharedAutopilot = shared.autopilot;
+
+  if (shared.observation) {
+    const obs = shared.observation;
+    holdObservation(
+      obs,
+      `HOLD · ${obs.targetName.toUpperCase()} · ${obs.instrument}`,
+    );
+  }
+}
+
+restoreUserProfile();
+restoreSessionFromHash();
+
+// ── Time machine ──────────────────────────────────────────────────────────────
+
+const timeline = new Timeline(document.getElementById("app")!, {
+  load: fetchObservationRange,
+  onObservation: (obs) => {
+    const day = obs.observedAt?.toISOString().slice(0, 10) ?? "";
+    holdObservation(
+      obs,
+      `REPLAY · ${day} · ${obs.targetName.toUpperCase()} · ${obs.instrument}`,
+    );
+  },
+  onActiveChange: (active) => {
+    if (active) {
+      // Replay owns the scene; autopilot would immediately steer away from it
+      markEarlyInteraction();
+      if (autopilotActive) stopAutopilot();
+    } else {
+      releaseHold();
+    }
+  },
+});
+
+// ── Signal tracks ─────────────────────────────────────────────────────────────
+// The listener's own recordings, added to the SIGNAL rotation
+
+let userSignalTracks: SignalTrack[] = [];
+
+new TrackPanel(document.getElementById("app")!, {
+  onChange: (tracks: UserTrack[]) => {
+    userSignalTracks = tracks.map((t) => ({
+      key: `user:${t.id}`,
+      url: userTrackSource(t),
+      title: t.name,
+      credit: null,
+      classes: t.classes,
+      gainDb: t.gainDb,
+      loudnessLufs: null,
+      loop: { start: 0, end: null },
+    }));
+    signalLayer.setExtraTracks(userSignalTracks);
+  },
+});
+
 autopilotBtn.addEventListener("click", () => {
   if (autopilotActive) {
     stopAutopilot();
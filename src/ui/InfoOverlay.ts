@@ -1,8 +1,26 @@
-import type { ObservationData } from '../data/JWSTFetcher'
+import type { ConnectionStatus, ObservationData } from '../data/JWSTFetcher'
+import { isSpectroscopic, observationBand, spectralRange } from '../data/JWSTFilters'
+import { classifyTarget } from '../data/TargetClassifier'
+
+// How long ago, roughly: "just now", "4 min ago", "3 h ago", "2 d ago"
+export function formatAge(ms: number): string {
+  const min = Math.floor(ms / 60_000)
+  if (min < 1) return 'just now'
+  if (min < 60) return `${min} min ago`
+  const h = Math.floor(min / 60)
+  if (h < 48) return `${h} h ago`
+  return `${Math.floor(h / 24)} d ago`
+}
 
 export class InfoOverlay {
   private el: HTMLElement
   private coordsEl: HTMLElement | null = null
+  private creditEl: HTMLElement | null = null
+  private signalEl: HTMLElement | null = null
+  private updatedEl: HTMLElement | null = null
+  private connection: ConnectionStatus | null = null
+  private imageCredit: string | null = null
+  private signalCredit: string | null = null
   private fadeTimer: ReturnType<typeof setTimeout> | null = null
 
   constructor(container: HTMLElement) {
@@ -12,20 +30,25 @@ export class InfoOverlay {
   }
 
   update(obs: ObservationData): void {
-    const time = obs.timestamp.toLocaleTimeString('en-GB', {
-      hour: '2-digit', minute: '2-digit', second: '2-digit',
-      timeZone: 'UTC',
-    }) + ' UTC'
-
     this.el.innerHTML = `
-      <div class="info-row"><span class="info-label">TARGET</span><span class="info-value">${this.esc(obs.targetName)}</span></div>
-      <div class="info-row"><span class="info-label">RA / DEC</span><span class="info-value" id="info-coords">${obs.ra.toFixed(2)}° / ${obs.dec.toFixed(2)}°</span></div>
+      <div class="info-row"><span class="info-label">TARGET</span><span class="info-value">${this.esc(obs.targetName)}${this.classText(obs)}</span></div>
+      <div class="info-row"><span class="info-label">RA / DEC</span><span class="info-value" id="info-coords">${this.coordsText(obs)}</span></div>
       <div class="info-row"><span class="info-label">INSTRUMENT</span><span class="info-value">${this.esc(obs.instrument)}</span></div>
-      <div class="info-row"><span class="info-label">FILTER</span><span class="info-value">${this.esc(obs.filter)}</span></div>
-      <div class="info-row"><span class="info-label">UPDATED</span><span class="info-value info-dim">${time}</span></div>
+      <div class="info-row"><span class="info-label">FILTER</span><span class="info-value">${this.esc(obs.filter)}${this.bandText(obs)}</span></div>
+      ${obs.observedAt ? `<div class="info-row"><span class="info-label">OBSERVED</span><span class="info-value">${obs.observedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC${this.exposureText(obs)}</span></div>` : ''}
+      ${obs.programId ? `<div class="info-row"><span class="info-label">PROGRAM</span><span class="info-value">${obs.programId}${obs.pi ? ` <span class="info-dim">· ${this.esc(obs.pi)}</span>` : ''}</span></div>` : ''}
+      <div class="info-row"><span class="info-label">UPDATED</span><span class="info-value info-dim" id="info-updated"></span></div>
+      <div class="info-row"><span class="info-label">IMAGE</span><span class="info-value info-dim" id="info-credit"></span></div>
+      <div class="info-row"><span class="info-label">SIGNAL</span><span class="info-value info-dim" id="info-signal"></span></div>
     `
 
     this.coordsEl = this.el.querySelector('#info-coords')
+    this.creditEl = this.el.querySelector('#info-credit')
+    this.signalEl = this.el.querySelector('#info-signal')
+    this.updatedEl = this.el.querySelector('#info-updated')
+    this.renderCredit()
+    this.renderSignalCredit()
+    this.renderConnection()
 
     // Fade in fully, then settle to resting opacity after 5s
     this.el.style.opacity = '0.85'
@@ -43,9 +66,92 @@ export class InfoOverlay {
     this.el.style.opacity = '0.85'
   }
 
-  resetCoords(ra: number, dec: number): void {
+  resetCoords(obs: ObservationData): void {
     if (!this.coordsEl) return
-    this.coordsEl.textContent = `${ra.toFixed(2)}° / ${dec.toFixed(2)}°`
+    this.coordsEl.textContent = this.coordsText(obs)
+  }
+
+  // A moving target the ephemeris can't place has no coordinates to show
+  private coordsText(obs: ObservationData): string {
+    if (obs.unplaced) return 'moving · no ephemeris'
+    return `${obs.ra.toFixed(2)}° / ${obs.dec.toFixed(2)}°`
+  }
+
+  // Object class, e.g. " · hii region" (nothing when unclassified)
+  private classText(obs: ObservationData): string {
+    const cls = classifyTarget(obs)
+    if (cls === 'unknown') return ''
+    return ` <span class="info-dim">· ${cls.replace(/-/g, ' ')}</span>`
+  }
+
+  // Effective pivot wavelength, e.g. " · 4.71 µm", when the filter is known;
+  // the dispersed range for spectroscopy, e.g. " · 2.87–5.27 µm"
+  private bandText(obs: ObservationData): string {
+    const range = isSpectroscopic(obs) ? spectralRange(obs) : null
+    if (range) {
+      return ` <span class="info-dim">· ${range.fromMicrons.toFixed(2)}–${range.toMicrons.toFixed(2)} µm</span>`
+    }
+    const band = observationBand(obs)
+    if (!band) return ''
+    const digits = band.pivotMicrons < 10 ? 2 : 1
+    return ` <span class="info-dim">· ${band.pivotMicrons.toFixed(digits)} µm</span>`
+  }
+
+  // Effective exposure time, e.g. " · 215 s" (nothing when unknown)
+  private exposureText(obs: ObservationData): string {
+    if (!obs.exposureSeconds) return ''
+    return ` <span class="info-dim">· ${Math.round(obs.exposureSeconds)} s</span>`
+  }
+
+  // Credit for the Webb image in the background (null = procedural scene)
+  setImageCredit(credit: string | null): void {
+    this.imageCredit = credit
+    this.renderCredit()
+  }
+
+  // Title and credit of the SIGNAL track being heard (null = none playing)
+  setSignalCredit(credit: string | null): void {
+    this.signalCredit = credit
+    this.renderSignalCredit()
+  }
+
+  // The live feed's state — when its data came from MAST and how the proxy
+  // served it, e.g. "14:02:11 UTC · 4 min ago · HIT"
+  setConnection(status: ConnectionStatus): void {
+    this.connection = status
+    this.renderConnection()
+  }
+
+  private renderConnection(): void {
+    if (!this.updatedEl) return
+    const status = this.connection
+    this.updatedEl.parentElement!.style.display = status ? '' : 'none'
+    if (!status) return
+    const parts: string[] = []
+    if (status.fetchedAt) {
+      parts.push(status.fetchedAt.toLocaleTimeString('en-GB', {
+        hour: '2-digit', minute: '2-digit', second: '2-digit',
+        timeZone: 'UTC',
+      }) + ' UTC')
+      parts.push(formatAge(Date.now() - status.fetchedAt.getTime()))
+    } else {
+      parts.push('no live data')
+    }
+    if (status.state === 'offline') parts.push('OFFLINE')
+    else if (status.source) parts.push(status.source)
+    this.updatedEl.textContent = parts.join(' · ')
+  }
+
+  private renderCredit(): void {
+    if (!this.creditEl) return
+    this.creditEl.textContent = this.imageCredit ?? ''
+    this.creditEl.parentElement!.style.display = this.imageCredit ? '' : 'none'
+  }
+
+  private renderSignalCredit(): void {
+    if (!this.signalEl) return
+    this.signalEl.textContent = this.signalCredit ?? ''
+    this.signalEl.parentElement!.style.display = this.signalCredit ? '' : 'none'
   }
 
   private esc(s: string): string {
@@ -26,11 +26,23 @@ export class InfoPanel {
           <div class="ip-section-title">CONTROLS</div>
           <div class="ip-row">
             <span class="ip-label">DRAG</span>
-            <span class="ip-value">Aim on the canvas to steer timbre/space and scan nearby cached observations + signal tracks.</span>
+            <span class="ip-value">Aim on the canvas to steer timbre/space and scan nearby cached observations + signal tracks. Over a real Webb image, the pixels under the reticle shape the drone: column brightness sets the voice mix, colour the tone, texture the shimmer.</span>
+          </div>
+          <div class="ip-row">
+            <span class="ip-label">MARKERS</span>
+            <span class="ip-value">Cached observations are plotted at their RA/Dec, coloured by instrument and fading with age. Click one to lock onto it; drag to release.</span>
           </div>
           <div class="ip-row">
             <span class="ip-label">SCROLL / PINCH</span>
-            <span class="ip-value">Zoom controls harmonic spread and visual scale.</span>
+            <span class="ip-value">Zoom controls harmonic spread and the field of view.</span>
+          </div>
+          <div class="ip-row">
+            <span class="ip-label">TAN / AITOFF</span>
+            <span class="ip-value">Sky projection centred on the current observation: gnomonic (camera view) or Hammer–Aitoff (whole sky).</span>
+          </div>
+          <div class="ip-row">
+            <span class="ip-label">MAPPING</span>
+            <span class="ip-value">CLASSIC, SCIENTIFIC or MINIMAL decide how observation data drives the sound and background. JSON… loads your own profile (see src/audio/MappingProfile.ts); it is remembered in this browser.</span>
           </div>
           <div class="ip-row">
             <span class="ip-label">CHORD</span>
@@ -56,11 +68,19 @@ export class InfoPanel {
             <span class="ip-label">SIGNAL</span>
             <span class="ip-value">Real NASA/Chandra recordings under the synth. Auto-crossfades every 30–90 s in live mode; drag-aim switches to manual scan. This slider sets blend level.</span>
           </div>
+          <div class="ip-row">
+            <span class="ip-label">TRACKS</span>
+            <span class="ip-value">Add your own recordings to the SIGNAL rotation: drop audio files anywhere, pick them, or paste a URL (the host must allow CORS). Limit each to the object classes it suits and trim its level; they are kept in this browser.</span>
+          </div>
+          <div class="ip-row">
+            <span class="ip-label">TIME</span>
+            <span class="ip-value">Time machine: pick a date range and replay Webb's observing schedule from the MAST archive, compressed into minutes. Scrub the timeline to jump.</span>
+          </div>
         </div>
 
         <div class="ip-section">
           <div class="ip-section-title">LIVE DATA</div>
-          <p class="ip-lead">Sources: JWST observation data from MAST/STScI (cached + refreshed every 60 s), plus bundled NASA/Chandra space-audio recordings.</p>
+          <p class="ip-lead">Sources: JWST observation data from MAST/STScI (cached + refreshed every 60 s), plus bundled NASA/Chandra space-audio recordings. Background stars: Hipparcos catalogue to magnitude 6 (via d3-celestial).</p>
         </div>
       </div>
     `;
@@ -0,0 +1,253 @@
+import type { ObservationData, ObservationRange } from "../data/JWSTFetcher";
+
+// Time machine — loads every observation in a date range from the MAST
+// archive and replays Webb's schedule at an accelerated rate (e.g. a week in
+// ten minutes), with a scrubbable timeline.
+
+export interface TimelineCallbacks {
+  load(from: Date, to: Date): Promise<ObservationRange>;
+  onObservation(obs: ObservationData): void;
+  onActiveChange(active: boolean): void;
+}
+
+const DAY_MS = 86_400_000;
+const MAX_RANGE_DAYS = 31;
+const REPLAY_MINUTES = [5, 10, 20, 60];
+const TICK_MS = 250;
+const SCRUB_STEPS = 1000;
+// Audio ramps take ~4 s and the background crossfade 3 s — don't switch
+// observations faster than the scene can follow.
+const MIN_EMIT_INTERVAL_MS = 2500;
+
+function isoDay(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function formatUtc(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ") + " UTC";
+}
+
+export class Timeline {
+  private btn: HTMLButtonElement;
+  private panel: HTMLElement;
+  private fromInput: HTMLInputElement;
+  private toInput: HTMLInputElement;
+  private loadBtn: HTMLButtonElement;
+  private playBtn: HTMLButtonElement;
+  private speedSelect: HTMLSelectElement;
+  private scrubber: HTMLInputElement;
+  private label: HTMLElement;
+  private callbacks: TimelineCallbacks;
+
+  private open = false;
+  private active = false;
+  private observations: ObservationData[] = [];
+  private truncated = false; // the proxy left some of the range out
+  private startMs = 0;
+  private endMs = 0;
+  private cursorMs = 0;
+  private playing = false;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTickAt = 0;
+  private currentIndex = -1;
+  private lastEmitAt = -Infinity;
+
+  constructor(appEl: HTMLElement, callbacks: TimelineCallbacks) {
+    this.callbacks = callbacks;
+
+    // ── Toggle button ─────────────────────────────────────────────────────────
+    this.btn = document.createElement("button");
+    this.btn.id = "timeline-btn";
+    this.btn.textContent = "TIME";
+    this.btn.setAttribute("aria-label", "Time machine");
+    this.btn.setAttribute("aria-expanded", "false");
+    appEl.appendChild(this.btn);
+
+    // ── Panel ─────────────────────────────────────────────────────────────────
+    const now = new Date();
+    this.panel = document.createElement("div");
+    this.panel.id = "timeline-panel";
+    this.panel.setAttribute("aria-hidden", "true");
+    this.panel.innerHTML = `
+      <div class="tl-row">
+        <input type="date" class="tl-date" id="tl-from" value="${isoDay(new Date(now.getTime() - 7 * DAY_MS))}" max="${isoDay(now)}" aria-label="From" />
+        <span class="tl-sep">→</span>
+        <input type="date" class="tl-date" id="tl-to" value="${isoDay(now)}" max="${isoDay(now)}" aria-label="To" />
+        <button class="mode-btn" id="tl-load">LOAD</button>
+        <select class="tl-speed" id="tl-speed" aria-label="Replay length">
+          ${REPLAY_MINUTES.map((m) => `<option value="${m}"${m === 10 ? " selected" : ""}>IN ${m} MIN</option>`).join("")}
+        </select>
+        <button class="mode-btn" id="tl-play" disabled>PLAY</button>
+      </div>
+      <input type="range" class="tl-scrubber" id="tl-scrubber" min="0" max="${SCRUB_STEPS}" value="0" disabled aria-label="Timeline" />
+      <div class="tl-label" id="tl-label">PICK A DATE RANGE</div>
+    `;
+    appEl.appendChild(this.panel);
+
+    this.fromInput = this.panel.querySelector("#tl-from")!;
+    this.toInput = this.panel.querySelector("#tl-to")!;
+    this.loadBtn = this.panel.querySelector("#tl-load")!;
+    this.playBtn = this.panel.querySelector("#tl-play")!;
+    this.speedSelect = this.panel.querySelector("#tl-speed")!;
+    this.scrubber = this.panel.querySelector("#tl-scrubber")!;
+    this.label = this.panel.querySelector("#tl-label")!;
+
+    // ── Event wiring ─────────────────────────────────────────────────────────
+    this.btn.addEventListener("click", () => this.toggle());
+    this.loadBtn.addEventListener("click", () => this.load());
+    this.playBtn.addEventListener("click", () =>
+      this.playing ? this.pause() : this.play(),
+    );
+    this.scrubber.addEventListener("input", () => {
+      this.seek(Number(this.scrubber.value) / SCRUB_STEPS, false);
+    });
+    this.scrubber.addEventListener("change", () => {
+      this.seek(Number(this.scrubber.value) / SCRUB_STEPS, true);
+    });
+  }
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  stop(): void {
+    this.pause();
+    this.observations = [];
+    this.currentIndex = -1;
+    this.playBtn.disabled = true;
+    this.scrubber.disabled = true;
+    this.scrubber.value = "0";
+    this.label.textContent = "PICK A DATE RANGE";
+    this.setActive(false);
+  }
+
+  // ── Private ───────────────────────────────────────────────────────────────
+
+  private toggle(): void {
+    this.open ? this.close() : this.show();
+  }
+
+  private show(): void {
+    this.open = true;
+    this.panel.classList.add("open");
+    this.panel.setAttribute("aria-hidden", "false");
+    this.btn.setAttribute("aria-expanded", "true");
+    this.btn.classList.add("active");
+  }
+
+  private close(): void {
+    this.open = false;
+    this.panel.classList.remove("open");
+    this.panel.setAttribute("aria-hidden", "true");
+    this.btn.setAttribute("aria-expanded", "false");
+    this.btn.classList.remove("active");
+    this.stop();
+  }
+
+  private setActive(active: boolean): void {
+    if (this.active === active) return;
+    this.active = active;
+    this.callbacks.onActiveChange(active);
+  }
+
+  private async load(): Promise<void> {
+    const from = new Date(`${this.fromInput.value}T00:00:00Z`);
+    // The "to" day is inclusive
+    const to = new Date(`${this.toInput.value}T00:00:00Z`);
+    to.setTime(to.getTime() + DAY_MS);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      this.label.textContent = "INVALID RANGE";
+      return;
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      this.label.textContent = `RANGE IS LIMITED TO ${MAX_RANGE_DAYS} DAYS`;
+      return;
+    }
+
+    this.pause();
+    this.loadBtn.disabled = true;
+    this.label.textContent = "QUERYING MAST…";
+    try {
+      const { observations, truncated } = await this.callbacks.load(from, to);
+      if (observations.length === 0) {
+        this.label.textContent = "NO SCIENCE OBSERVATIONS IN RANGE";
+        return;
+      }
+      this.observations = observations;
+      this.truncated = truncated;
+      this.startMs = from.getTime();
+      this.endMs = to.getTime();
+      this.currentIndex = -1;
+      this.playBtn.disabled = false;
+      this.scrubber.disabled = false;
+      this.setActive(true);
+      this.seek(0, true);
+      this.play();
+    } catch (err) {
+      console.warn("Timeline: range query failed", err);
+      this.label.textContent = "ARCHIVE UNAVAILABLE — TRY AGAIN";
+    } finally {
+      this.loadBtn.disabled = false;
+    }
+  }
+
+  private play(): void {
+    if (this.observations.length === 0) return;
+    if (this.cursorMs >= this.endMs) this.seek(0, true);
+    this.playing = true;
+    this.playBtn.textContent = "PAUSE";
+    this.lastTickAt = performance.now();
+    if (this.tickTimer !== null) clearInterval(this.tickTimer);
+    this.tickTimer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  private pause(): void {
+    this.playing = false;
+    this.playBtn.textContent = "PLAY";
+    if (this.tickTimer !== null) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  private tick(): void {
+    const now = performance.now();
+    const dt = now - this.lastTickAt;
+    this.lastTickAt = now;
+    // Whole range plays back in the selected number of minutes
+    const replayMs = Number(this.speedSelect.value) * 60_000;
+    const rate = (this.endMs - this.startMs) / replayMs;
+    this.cursorMs = Math.min(this.endMs, this.cursorMs + dt * rate);
+    this.scrubber.value = String(
+      Math.round(
+        ((this.cursorMs - this.startMs) / (this.endMs - this.startMs)) *
+          SCRUB_STEPS,
+      ),
+    );
+    this.update(false);
+    if (this.cursorMs >= this.endMs) this.pause();
+  }
+
+  private seek(frac: number, force: boolean): void {
+    this.cursorMs = this.startMs + frac * (this.endMs - this.startMs);
+    this.update(force);
+  }
+
+  // Emit the latest observation that started at or before the cursor
+  private update(force: boolean): void {
+    let index = 0;
+    for (let i = 0; i < this.observations.length; i++) {
+      if (this.observations[i].observedAt!.getTime() > this.cursorMs) break;
+      index = i;
+    }
+    const obs = this.observations[index];
+    this.label.textContent = `${formatUtc(this.cursorMs)} · ${obs.targetName.toUpperCase()} · ${index + 1}/${this.observations.length}${this.truncated ? " · PARTIAL — SOME DAYS INCOMPLETE" : ""}`;
+
+    if (index === this.currentIndex) return;
+    const now = performance.now();
+    if (!force && now - this.lastEmitAt < MIN_EMIT_INTERVAL_MS) return;
+    this.currentIndex = index;
+    this.lastEmitAt = now;
+    this.callbacks.onObservation(obs);
+  }
+}
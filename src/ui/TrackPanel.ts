@@ -0,0 +1,302 @@
+import { OBJECT_CLASSES } from "../data/TargetClassifier";
+import {
+  AUDIO_FILE_EXTENSIONS,
+  USER_TRACK_GAIN_MAX_DB,
+  USER_TRACK_GAIN_MIN_DB,
+  deleteUserTrack,
+  isObjectClass,
+  listUserTracks,
+  saveUserTrack,
+  userTrackFromFile,
+  userTrackFromUrl,
+  type UserTrack,
+} from "../data/UserTrackStore";
+
+// Signal tracks — the listener's own recordings in the SIGNAL layer's
+// rotation. Drop audio files (or a link) anywhere on the page, pick files,
+// or paste a URL. Each track suits every observation until limited to some
+// object classes, and has a gain trim. Kept in IndexedDB (UserTrackStore).
+
+export interface TrackPanelCallbacks {
+  onChange(tracks: UserTrack[]): void;
+}
+
+const HINT = "DROP AUDIO ANYWHERE, PICK FILES OR PASTE A URL";
+
+function esc(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function classLabel(cls: string): string {
+  return cls.replace(/-/g, " ").toUpperCase();
+}
+
+function gainLabel(db: number): string {
+  return `${db > 0 ? "+" : ""}${db} dB`;
+}
+
+export class TrackPanel {
+  private btn: HTMLButtonElement;
+  private panel: HTMLElement;
+  private fileInput: HTMLInputElement;
+  private urlInput: HTMLInputElement;
+  private list: HTMLElement;
+  private label: HTMLElement;
+  private callbacks: TrackPanelCallbacks;
+
+  private open = false;
+  private tracks: UserTrack[] = [];
+
+  constructor(appEl: HTMLElement, callbacks: TrackPanelCallbacks) {
+    this.callbacks = callbacks;
+
+    // ── Toggle button ─────────────────────────────────────────────────────────
+    this.btn = document.createElement("button");
+    this.btn.id = "tracks-btn";
+    this.btn.textContent = "TRACKS";
+    this.btn.setAttribute("aria-label", "Your signal tracks");
+    this.btn.setAttribute("aria-expanded", "false");
+    appEl.appendChild(this.btn);
+
+    // ── Panel ─────────────────────────────────────────────────────────────────
+    this.panel = document.createElement("div");
+    this.panel.id = "tracks-panel";
+    this.panel.setAttribute("aria-hidden", "true");
+    this.panel.innerHTML = `
+      <div class="tl-row">
+        <button class="mode-btn" id="tp-file-btn">FILES…</button>
+        <input type="file" id="tp-file" accept="audio/*,${AUDIO_FILE_EXTENSIONS.join(",")}" multiple hidden />
+        <input type="url" class="tl-date tp-url" id="tp-url" placeholder="HTTPS://…" spellcheck="false" autocomplete="off" aria-label="Track URL" />
+        <button class="mode-btn" id="tp-url-btn">ADD</button>
+      </div>
+      <div class="tp-list" id="tp-list"></div>
+      <div class="tl-label" id="tp-label">${HINT}</div>
+    `;
+    appEl.appendChild(this.panel);
+
+    this.fileInput = this.panel.querySelector("#tp-file")!;
+    this.urlInput = this.panel.querySelector("#tp-url")!;
+    this.list = this.panel.querySelector("#tp-list")!;
+    this.label = this.panel.querySelector("#tp-label")!;
+
+    // ── Event wiring ─────────────────────────────────────────────────────────
+    this.btn.addEventListener("click", () => this.toggle());
+    this.panel
+      .querySelector("#tp-file-btn")!
+      .addEventListener("click", () => this.fileInput.click());
+    this.fileInput.addEventListener("change", () => {
+      const files = [...(this.fileInput.files ?? [])];
+      this.fileInput.value = "";
+      this.addFiles(files);
+    });
+    this.panel
+      .querySelector("#tp-url-btn")!
+      .addEventListener("click", () => this.addUrl(this.urlInput.value));
+    this.urlInput.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") this.addUrl(this.urlInput.value);
+    });
+
+    this.list.addEventListener("click", (e) => this.onListClick(e));
+    this.list.addEventListener("change", (e) => this.onListChange(e));
+    this.list.addEventListener("input", (e) => {
+      const input = e.target as HTMLElement;
+      if (!input.classList.contains("tp-gain")) return;
+      const value = Number((input as HTMLInputElement).value);
+      input.nextElementSibling!.textContent = gainLabel(value);
+    });
+
+    // Files or links dropped anywhere on the page
+    appEl.addEventListener("dragover", (e) => {
+      const types = e.dataTransfer?.types ?? [];
+      if (!types.includes("Files") && !types.includes("text/uri-list")) return;
+      e.preventDefault();
+      e.dataTransfer!.dropEffect = "copy";
+    });
+    appEl.addEventListener("drop", (e) => {
+      const data = e.dataTransfer;
+      if (!data) return;
+      const files = [...data.files];
+      const uri = data.getData("text/uri-list").split("\n")[0]?.trim();
+      if (files.length === 0 && !uri) return;
+      e.preventDefault();
+      this.show();
+      if (files.length > 0) this.addFiles(files);
+      else this.addUrl(uri);
+    });
+
+    void this.restore();
+  }
+
+  // ── Private ───────────────────────────────────────────────────────────────
+
+  private toggle(): void {
+    this.open ? this.close() : this.show();
+  }
+
+  private show(): void {
+    this.open = true;
+    this.panel.classList.add("open");
+    this.panel.setAttribute("aria-hidden", "false");
+    this.btn.setAttribute("aria-expanded", "true");
+    this.btn.classList.add("active");
+  }
+
+  private close(): void {
+    this.open = false;
+    this.panel.classList.remove("open");
+    this.panel.setAttribute("aria-hidden", "true");
+    this.btn.setAttribute("aria-expanded", "false");
+    this.btn.classList.remove("active");
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      this.tracks = await listUserTracks();
+    } catch (err) {
+      console.warn("TrackPanel: stored tracks unavailable", err);
+      this.label.textContent = "TRACK STORAGE UNAVAILABLE IN THIS BROWSER";
+      return;
+    }
+    this.render();
+    if (this.tracks.length > 0) this.callbacks.onChange(this.tracks);
+  }
+
+  private addFiles(files: File[]): void {
+    const tracks: UserTrack[] = [];
+    for (const file of files) {
+      try {
+        tracks.push(userTrackFromFile(file));
+      } catch (err) {
+        console.warn("TrackPanel: file rejected", err);
+      }
+    }
+    if (tracks.length === 0) {
+      this.label.textContent = "NOT AN AUDIO FILE";
+      return;
+    }
+    void this.add(tracks);
+  }
+
+  private addUrl(raw: string): void {
+    if (!raw.trim()) return;
+    let track: UserTrack;
+    try {
+      track = userTrackFromUrl(raw);
+    } catch (err) {
+      this.label.textContent = `NOT ADDED · ${err instanceof Error ? err.message.toUpperCase() : String(err)}`;
+      return;
+    }
+    this.urlInput.value = "";
+    void this.add([track]);
+  }
+
+  private async add(tracks: UserTrack[]): Promise<void> {
+    try {
+      for (const track of tracks) await saveUserTrack(track);
+    } catch (err) {
+      console.warn("TrackPanel: could not store tracks", err);
+      this.label.textContent = "COULD NOT STORE TRACK";
+      return;
+    }
+    this.tracks.push(...tracks);
+    this.render();
+    this.label.textContent =
+      tracks.length === 1
+        ? `ADDED ${tracks[0].name.toUpperCase()}`
+        : `ADDED ${tracks.length} TRACKS`;
+    this.callbacks.onChange(this.tracks);
+  }
+
+  private async update(track: UserTrack): Promise<void> {
+    this.render();
+    this.callbacks.onChange(this.tracks);
+    try {
+      await saveUserTrack(track);
+    } catch (err) {
+      console.warn("TrackPanel: could not store track", err);
+    }
+  }
+
+  // The layer lets go of the track before its stored audio is released
+  private async remove(id: string): Promise<void> {
+    this.tracks = this.tracks.filter((t) => t.id !== id);
+    this.render();
+    this.callbacks.onChange(this.tracks);
+    this.label.textContent = HINT;
+    try {
+      await deleteUserTrack(id);
+    } catch (err) {
+      console.warn("TrackPanel: could not delete track", err);
+    }
+  }
+
+  private trackFor(target: HTMLElement): UserTrack | undefined {
+    const id = target.closest<HTMLElement>(".tp-track")?.dataset.id;
+    return this.tracks.find((t) => t.id === id);
+  }
+
+  private onListClick(e: Event): void {
+    const target = e.target as HTMLElement;
+    const track = this.trackFor(target);
+    if (!track) return;
+    if (target.closest(".tp-remove")) {
+      void this.remove(track.id);
+      return;
+    }
+    const chip = target.closest<HTMLElement>(".tp-class");
+    if (chip) {
+      track.classes = track.classes.filter((c) => c !== chip.dataset.class);
+      void this.update(track);
+    }
+  }
+
+  private onListChange(e: Event): void {
+    const target = e.target as HTMLInputElement | HTMLSelectElement;
+    const track = this.trackFor(target);
+    if (!track) return;
+    if (target.classList.contains("tp-add-class")) {
+      if (isObjectClass(target.value)) {
+        track.classes = [...track.classes, target.value];
+        void this.update(track);
+      }
+    } else if (target.classList.contains("tp-gain")) {
+      track.gainDb = Number(target.value);
+      void this.update(track);
+    }
+  }
+
+  private render(): void {
+    this.list.innerHTML = this.tracks
+      .map((t) => {
+        const chips =
+          t.classes.length > 0
+            ? t.classes
+                .map(
+                  (c) =>
+                    `<button class="mode-btn tp-class" data-class="${c}" title="Stop using for ${classLabel(c).toLowerCase()}">${classLabel(c)} ✕</button>`,
+                )
+                .join("")
+            : `<span class="tp-any">ALL TARGETS</span>`;
+        const options = OBJECT_CLASSES.filter((c) => !t.classes.includes(c))
+          .map((c) => `<option value="${c}">${classLabel(c)}</option>`)
+          .join("");
+        return `
+          <div class="tp-track" data-id="${t.id}">
+            <div class="tl-row">
+              <span class="tp-name" title="${esc(t.url ?? t.name)}">${esc(t.name)}</span>
+              <input type="range" class="tl-scrubber tp-gain" min="${USER_TRACK_GAIN_MIN_DB}" max="${USER_TRACK_GAIN_MAX_DB}" step="1" value="${t.gainDb}" aria-label="Gain trim" />
+              <span class="tp-gain-label">${gainLabel(t.gainDb)}</span>
+              <button class="mode-btn tp-remove" aria-label="Remove ${esc(t.name)}">✕</button>
+            </div>
+            <div class="tl-row">
+              ${chips}
+              <select class="tl-speed tp-add-class" aria-label="Suits object class">
+                <option value="">+ CLASS</option>${options}
+              </select>
+            </div>
+          </div>
+        `;
+      })
+      .join("");
+  }
+}
@@ -1,16 +1,30 @@
 import type { ObservationData } from "../data/JWSTFetcher";
-
-// ── Deterministic RNG (mulberry32) ────────────────────────────────────────────
-
-function mulberry32(seed: number): () => number {
-  return function () {
-    seed |= 0;
-    seed = (seed + 0x6d2b79f5) | 0;
-    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
+import { projectToScreen, type SkyView } from "./SkyProjection";
+import { findJWSTImage } from "./JWSTImageLibrary";
+import {
+  SPECTRAL_FEATURES,
+  effectiveBand,
+  isSpectroscopic,
+  observationBands,
+  spectralRange,
+  type JWSTBand,
+  type SpectralRange,
+} from "../data/JWSTFilters";
+import {
+  solarSystemBody,
+  type Planet,
+  type SolarSystemBody,
+} from "../data/Ephemeris";
+import {
+  CLASSIC_PROFILE,
+  evaluateNumber,
+  evaluateValue,
+  type MappingProfile,
+  type SceneKind,
+} from "../audio/MappingProfile";
+import { mulberry32 } from "../audio/SeededRandom";
+
+// ── Deterministic RNG (seeds for mulberry32) ──────────────────────────────────
 
 function hashString(s: string): number {
   let h = 0;
@@ -28,43 +42,96 @@ interface Palette {
   glow: [number, number, number];
 }
 
-function filterToWavelength(filter: string): number {
-  const digits = filter.replace(/\D/g, "");
-  return digits.length > 0 ? parseInt(digits, 10) : 500;
+type PaletteTone = keyof Palette;
+
+// Webb's false-colour convention: shortest wavelength blue, longest red. The
+// hue runs continuously on a log scale across the observatory's range, so
+// F090W sits in the blues, F444W in the greens, MIRI in the reds.
+const PALETTE_MIN_MICRONS = 0.6;
+const PALETTE_MAX_MICRONS = 28;
+// How far either side of a single band the secondary and glow colours reach
+const SINGLE_BAND_SPREAD = 1.35;
+
+function wavelengthColour(wl: number): [number, number, number] {
+  const t = Math.max(
+    0,
+    Math.min(
+      1,
+      Math.log(wl / PALETTE_MIN_MICRONS) /
+        Math.log(PALETTE_MAX_MICRONS / PALETTE_MIN_MICRONS),
+    ),
+  );
+  return [240 * (1 - t), 80 - 10 * t, 65 - 22 * t];
 }
 
-function wavelengthToPalette(wl: number): Palette {
-  if (wl < 100) {
-    return {
-      primary: [230, 80, 65],
-      secondary: [260, 70, 55],
-      glow: [215, 90, 80],
-    };
-  } else if (wl < 200) {
-    return {
-      primary: [200, 75, 60],
-      secondary: [220, 65, 50],
-      glow: [190, 85, 75],
-    };
-  } else if (wl < 500) {
-    return {
-      primary: [40, 85, 60],
-      secondary: [25, 80, 50],
-      glow: [50, 90, 75],
-    };
-  } else if (wl < 1500) {
-    return {
-      primary: [10, 80, 45],
-      secondary: [350, 75, 40],
-      glow: [20, 85, 65],
-    };
-  } else {
-    return {
-      primary: [320, 70, 40],
-      secondary: [300, 65, 35],
-      glow: [330, 80, 60],
-    };
-  }
+// Primary at the middle of the observed light, secondary (darker) at its red
+// end, glow (brighter) at its blue end. Several filters, or a disperser's
+// range, pull the three apart into a multi-hue palette.
+function wavelengthsToPalette(wavelengths: number[]): Palette {
+  const lo = Math.min(...wavelengths);
+  const hi = Math.max(...wavelengths);
+  const mid = Math.sqrt(lo * hi);
+  const [ph, ps, pl] = wavelengthColour(mid);
+  const [sh, ss, sl] = wavelengthColour(Math.max(hi, mid * SINGLE_BAND_SPREAD));
+  const [gh, gs, gl] = wavelengthColour(Math.min(lo, mid / SINGLE_BAND_SPREAD));
+  return {
+    primary: [ph, ps, pl],
+    secondary: [sh, ss - 5, sl - 10],
+    glow: [gh, Math.min(100, gs + 10), gl + 15],
+  };
+}
+
+// The profile's wavelength (visual.paletteMicrons) is the centre; the
+// observation's own bands set the spread around it
+function paletteWavelengths(centre: number, bands: JWSTBand[]): number[] {
+  const effective = effectiveBand(bands);
+  if (!effective) return [centre];
+  const scale = centre / effective.pivotMicrons;
+  return bands
+    .flatMap((b) =>
+      b.bandClass === "disperser" || b.bandClass === "longpass"
+        ? [
+            b.pivotMicrons - b.bandwidthMicrons / 2,
+            b.pivotMicrons + b.bandwidthMicrons / 2,
+          ]
+        : [b.pivotMicrons],
+    )
+    .map((wl) => wl * scale);
+}
+
+// Shortest way round the colour wheel
+function mixHue(a: number, b: number, t: number): number {
+  const d = ((((b - a) % 360) + 540) % 360) - 180;
+  return a + d * t;
+}
+
+function mixPalettes(from: Palette, to: Palette, t: number): Palette {
+  const mix = (
+    a: [number, number, number],
+    b: [number, number, number],
+  ): [number, number, number] => [
+    mixHue(a[0], b[0], t),
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+  ];
+  return {
+    primary: mix(from.primary, to.primary),
+    secondary: mix(from.secondary, to.secondary),
+    glow: mix(from.glow, to.glow),
+  };
+}
+
+// An object in another palette: shifted by however far its tone moved
+function retint(obj: SceneObject, own: Palette, target: Palette): SceneObject {
+  if (obj.tone === null || own === target) return obj;
+  const [oh, os, ol] = own[obj.tone];
+  const [th, ts, tl] = target[obj.tone];
+  return {
+    ...obj,
+    hue: mixHue(oh, th, 1) - oh + obj.hue,
+    sat: obj.sat + ts - os,
+    lit: obj.lit + tl - ol,
+  };
 }
 
 function hsl(h: number, s: number, l: number, a = 1): string {
@@ -100,6 +167,81 @@ function instrumentToStyle(instrument: string): InstrumentStyle {
   };
 }
 
+// ── Planet looks ──────────────────────────────────────────────────────────────
+// Fixed colours — the planets look like themselves whatever the filter
+
+interface BodyLook {
+  hue: number;
+  sat: number;
+  lit: number;
+  bands: number; // cloud bands across the disc
+  tilt: number; // radians; bands and rings follow it
+  rings: [number, number, number][]; // [inner, outer (× radius), alpha]
+}
+
+const FAINT_RING: [number, number, number][] = [[1.7, 1.78, 0.18]];
+
+const PLANET_LOOKS: Record<Planet, BodyLook> = {
+  mercury: { hue: 30, sat: 8, lit: 55, bands: 0, tilt: 0, rings: [] },
+  venus: { hue: 45, sat: 30, lit: 80, bands: 1, tilt: 0, rings: [] },
+  mars: { hue: 15, sat: 60, lit: 50, bands: 0, tilt: 0.44, rings: [] },
+  jupiter: {
+    hue: 30,
+    sat: 45,
+    lit: 60,
+    bands: 9,
+    tilt: 0.05,
+    rings: FAINT_RING,
+  },
+  saturn: {
+    hue: 42,
+    sat: 40,
+    lit: 58,
+    bands: 5,
+    tilt: -0.35,
+    rings: [
+      [1.24, 1.52, 0.35],
+      [1.53, 1.95, 0.7],
+      [2.03, 2.27, 0.5],
+    ],
+  },
+  uranus: {
+    hue: 185,
+    sat: 40,
+    lit: 70,
+    bands: 2,
+    tilt: 1.45,
+    rings: FAINT_RING,
+  },
+  neptune: {
+    hue: 215,
+    sat: 55,
+    lit: 55,
+    bands: 3,
+    tilt: 0.5,
+    rings: FAINT_RING,
+  },
+  pluto: { hue: 25, sat: 30, lit: 65, bands: 0, tilt: 0, rings: [] },
+};
+
+// Comets, asteroids and moons
+const SMALL_BODY_LOOK: BodyLook = {
+  hue: 30,
+  sat: 10,
+  lit: 55,
+  bands: 0,
+  tilt: 0,
+  rings: [],
+};
+
+// Squash of a ring seen at an angle
+const RING_ASPECT = 0.28;
+
+// Where a spectrum's trace starts and how far it runs, as fractions of the
+// frame width at zoom 1
+const TRACE_X = 0.08;
+const TRACE_LENGTH = 0.84;
+
 // ── Scene data ────────────────────────────────────────────────────────────────
 
 interface SceneObject {
@@ -114,6 +256,7 @@ interface SceneObject {
   alpha: number;
   phase: number;
   kind: string;
+  tone: PaletteTone | null; // palette colour it was built from; null = fixed
 }
 
 interface SceneData {
@@ -122,8 +265,74 @@ interface SceneData {
   style: InstrumentStyle;
   objects: SceneObject[];
   seed: number;
+  // Where the scene is anchored on the sky; null = unplaced, kept centred
+  sky: { ra: number; dec: number } | null;
+  image: OffscreenCanvas | null; // real Webb image under the procedural layer
+  imageCredit: string | null;
+  spectrum: SpectralRange | null; // set for spectroscopic observations
+}
+
+// Spectroscopy draws the dispersed light itself, whatever the profile's scene
+type BackgroundScene = SceneKind | "spectrum";
+
+// ── Webb imagery ──────────────────────────────────────────────────────────────
+
+// Library images are multi-megapixel; keep a downscaled copy to draw per frame
+const MAX_IMAGE_DIM = 2048;
+const IMAGE_ALPHA = 0.85;
+const PROCEDURAL_OVER_IMAGE_ALPHA = 0.35;
+const IMAGE_ZOOM_PER_UNIT = 0.4; // extra magnification per unit of zoom
+const AIM_PAN_SMOOTHING = 0.08;
+
+interface ImageRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  canvasW: number;
+  canvasH: number;
+}
+
+const imageCache = new Map<string, Promise<OffscreenCanvas>>();
+
+// Anonymous CORS first so ImageSonifier can read the pixels; hosts that
+// don't send CORS headers reject that, so retry as a plain (display-only) load
+function loadImage(url: string): Promise<OffscreenCanvas> {
+  let pending = imageCache.get(url);
+  if (!pending) {
+    pending = decodeImage(url, true).catch(() => decodeImage(url, false));
+    // Forget failures so a later observation can retry
+    pending.catch(() => imageCache.delete(url));
+    imageCache.set(url, pending);
+  }
+  return pending;
+}
+
+function decodeImage(url: string, cors: boolean): Promise<OffscreenCanvas> {
+  return new Promise<OffscreenCanvas>((resolve, reject) => {
+    const img = new Image();
+    img.decoding = "async";
+    if (cors) img.crossOrigin = "anonymous";
+    img.onload = () => {
+      const s = Math.min(
+        1,
+        MAX_IMAGE_DIM / Math.max(img.naturalWidth, img.naturalHeight),
+      );
+      const buf = new OffscreenCanvas(
+        Math.max(1, Math.round(img.naturalWidth * s)),
+        Math.max(1, Math.round(img.naturalHeight * s)),
+      );
+      buf.getContext("2d")!.drawImage(img, 0, 0, buf.width, buf.height);
+      resolve(buf);
+    };
+    img.onerror = () => reject(new Error(`Image failed to load: ${url}`));
+    img.src = url;
+  });
 }
 
+// Fraction of the projected offset applied to the background layer
+const SCENE_DEPTH = 0.6;
+
 // ── Main class ────────────────────────────────────────────────────────────────
 
 export class GenerativeBackground {
@@ -144,9 +353,21 @@ export class GenerativeBackground {
   private crossfadeStart = -Infinity;
   private readonly crossfadeDuration = 3000;
 
-  // Normalized 0–1 sky coords used for parallax shift
-  private normalizedRA = 0.5;
-  private normalizedDec = 0.5;
+  // Shared projection — the scene is anchored at its observation's position
+  private view: SkyView | null = null;
+  private profile: MappingProfile = CLASSIC_PROFILE;
+
+  // Aim reticle (normalized 0–1, null when inactive) pans the Webb image
+  private aimX: number | null = null;
+  private aimY: number | null = null;
+  private aimPanX = 0;
+  private aimPanY = 0;
+  private onImage:
+    ((image: OffscreenCanvas | null, credit: string | null) => void) | null =
+    null;
+  // Image shown by the latest fade, and where each image was last drawn
+  private currentImage: OffscreenCanvas | null = null;
+  private imageRects = new WeakMap<OffscreenCanvas, ImageRect>();
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -168,25 +389,112 @@ export class GenerativeBackground {
     this.sceneScale = z;
   }
 
-  setAimCoords(ra: number, dec: number): void {
-    this.normalizedRA = ra / 360;
-    this.normalizedDec = (dec + 90) / 180;
+  setView(view: SkyView): void {
+    this.view = view;
+  }
+
+  // Palette and scene choice; seen from the next setObservation
+  setProfile(profile: MappingProfile): void {
+    this.profile = profile;
+  }
+
+  setAimPoint(x: number | null, y: number | null): void {
+    this.aimX = x;
+    this.aimY = y;
+  }
+
+  // Called whenever a Webb image fades in, with its credit (null = none)
+  setImageListener(
+    listener: (image: OffscreenCanvas | null, credit: string | null) => void,
+  ): void {
+    this.onImage = listener;
+  }
+
+  // Normalized image coordinates under a normalized screen point, or null
+  // when no image is showing
+  imagePointAt(x: number, y: number): { u: number; v: number } | null {
+    const image = this.currentImage;
+    const rect = image ? this.imageRects.get(image) : undefined;
+    if (!rect) return null;
+    return {
+      u: (x * rect.canvasW - rect.x) / rect.w,
+      v: (y * rect.canvasH - rect.y) / rect.h,
+    };
   }
 
   setObservation(obs: ObservationData): void {
-    this.normalizedRA = obs.ra / 360;
-    this.normalizedDec = (obs.dec + 90) / 180;
     const seed =
       Math.floor(obs.ra * 1000 + (obs.dec + 90) * 100) +
       hashString(obs.targetName);
-    const palette = wavelengthToPalette(filterToWavelength(obs.filter));
+    const palette = wavelengthsToPalette(
+      paletteWavelengths(
+        evaluateNumber(this.profile.visual.paletteMicrons, obs),
+        observationBands(obs),
+      ),
+    );
     const style = instrumentToStyle(obs.instrument);
-    const objects = this.buildScene(obs.targetType, seed, palette, style);
+    const spectrum = isSpectroscopic(obs) ? spectralRange(obs) : null;
+    const kind: BackgroundScene = spectrum
+      ? "spectrum"
+      : evaluateValue(this.profile.visual.scene, obs);
+    const objects = this.buildScene(
+      kind,
+      seed,
+      palette,
+      style,
+      spectrum,
+      solarSystemBody(obs.targetName),
+    );
+
+    const scene: SceneData = {
+      type: obs.targetType,
+      palette,
+      style,
+      objects,
+      seed,
+      sky: obs.unplaced ? null : { ra: obs.ra, dec: obs.dec },
+      image: null,
+      imageCredit: null,
+      spectrum,
+    };
+    this.fadeTo(scene);
+
+    // Known targets get the real image once it's loaded; the procedural scene
+    // stands in meanwhile (and for good if the load fails)
+    const match = findJWSTImage(obs.targetName);
+    if (match) {
+      loadImage(match.url)
+        .then((image) =>
+          this.attachImage(scene, {
+            ...scene,
+            image,
+            imageCredit: match.credit,
+          }),
+        )
+        .catch((err) => console.warn("GenerativeBackground:", err));
+    }
+  }
+
+  start(): void {
+    const loop = () => {
+      this.render();
+      this.animId = requestAnimationFrame(loop);
+    };
+    this.animId = requestAnimationFrame(loop);
+  }
+
+  stop(): void {
+    cancelAnimationFrame(this.animId);
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────────
 
-    this.nextScene = { type: obs.targetType, palette, style, objects, seed };
+  private fadeTo(scene: SceneData): void {
+    this.nextScene = scene;
 
     // Render new scene into the back buffer immediately
-    this.renderSceneToContext(this.backCtx(), this.nextScene, 0);
+    this.renderSceneToContext(this.backCtx(), scene, 0);
+    this.announceImage(scene);
 
     if (!this.scene) {
       // First observation: snap directly, no fade
@@ -199,20 +507,23 @@ export class GenerativeBackground {
     }
   }
 
-  start(): void {
-    const loop = () => {
-      this.render();
-      this.animId = requestAnimationFrame(loop);
-    };
-    this.animId = requestAnimationFrame(loop);
+  private announceImage(scene: SceneData): void {
+    this.currentImage = scene.image;
+    this.onImage?.(scene.image, scene.imageCredit);
   }
 
-  stop(): void {
-    cancelAnimationFrame(this.animId);
+  // Swap in the image version of a scene if it's still the one on its way in
+  // or on screen; stale loads are dropped
+  private attachImage(scene: SceneData, withImage: SceneData): void {
+    if (this.nextScene === scene) {
+      this.nextScene = withImage;
+      this.renderSceneToContext(this.backCtx(), withImage, 0);
+      this.announceImage(withImage);
+    } else if (this.scene === scene && this.nextScene === null) {
+      this.fadeTo(withImage);
+    }
   }
 
-  // ── Private helpers ───────────────────────────────────────────────────────────
-
   private frontCtx(): OffscreenCanvasRenderingContext2D {
     return this.useB ? this.ctxB : this.ctxA;
   }
@@ -252,18 +563,42 @@ export class GenerativeBackground {
     const { canvas, ctx } = this;
     const t = performance.now() - this.startTime;
 
+    // Ease the image pan toward the reticle (back to centre when not aiming)
+    const targetPanX = this.aimX === null ? 0 : (0.5 - this.aimX) * 2;
+    const targetPanY = this.aimY === null ? 0 : (0.5 - this.aimY) * 2;
+    this.aimPanX += (targetPanX - this.aimPanX) * AIM_PAN_SMOOTHING;
+    this.aimPanY += (targetPanY - this.aimPanY) * AIM_PAN_SMOOTHING;
+
+    const elapsed = performance.now() - this.crossfadeStart;
+    // Runs through the frame that reaches 1, which swaps the scenes over
+    const inFade = this.nextScene !== null;
+    const fadeFrac = Math.min(1, elapsed / this.crossfadeDuration);
+
+    // Mid-fade both scenes are drawn in one palette easing from the old
+    // colours to the new, so hues glide rather than dissolve
+    const fadePalette =
+      inFade && this.scene && this.nextScene
+        ? mixPalettes(
+            this.scene.palette,
+            this.nextScene.palette,
+            fadeFrac * fadeFrac * (3 - 2 * fadeFrac),
+          )
+        : undefined;
+
     // Re-render current scene with glow animation every frame
     if (this.scene) {
-      this.renderSceneToContext(this.frontCtx(), this.scene, t);
+      this.renderSceneToContext(this.frontCtx(), this.scene, t, fadePalette);
     }
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    const elapsed = performance.now() - this.crossfadeStart;
-    const inFade = this.nextScene !== null && elapsed < this.crossfadeDuration;
-    const fadeFrac = Math.min(1, elapsed / this.crossfadeDuration);
-
     if (inFade) {
+      this.renderSceneToContext(
+        this.backCtx(),
+        this.nextScene!,
+        t,
+        fadePalette,
+      );
       ctx.globalAlpha = 1.0;
       ctx.drawImage(this.frontBuf(), 0, 0);
       ctx.globalAlpha = fadeFrac;
@@ -283,20 +618,30 @@ export class GenerativeBackground {
   // ── Scene builder ─────────────────────────────────────────────────────────────
 
   private buildScene(
-    targetType: string,
+    kind: BackgroundScene,
     seed: number,
     palette: Palette,
     style: InstrumentStyle,
+    spectrum: SpectralRange | null,
+    body: SolarSystemBody | null,
   ): SceneObject[] {
     const rng = mulberry32(seed);
-    const type = targetType.toLowerCase();
-
-    if (type.includes("galaxy cluster") || type.includes("galaxy")) {
-      return this.buildGalaxyCluster(rng, palette, style);
+    switch (kind) {
+      case "spectrum":
+        return spectrum
+          ? this.buildSpectrum(rng, style, spectrum)
+          : this.buildDeepField(rng, palette, style);
+      case "galaxy-cluster":
+        return this.buildGalaxyCluster(rng, palette, style);
+      case "nebula":
+        return this.buildNebula(rng, palette, style);
+      case "star":
+        return this.buildStar(rng, palette, style);
+      case "deep-field":
+        return this.buildDeepField(rng, palette, style);
+      case "planet":
+        return this.buildPlanet(rng, style, body);
     }
-    if (type.includes("nebula")) return this.buildNebula(rng, palette, style);
-    if (type.includes("star")) return this.buildStar(rng, palette, style);
-    return this.buildDeepField(rng, palette, style);
   }
 
   private buildGalaxyCluster(
@@ -326,6 +671,7 @@ export class GenerativeBackground {
         alpha: 0.1 + rng() * 0.3,
         phase: rng() * Math.PI * 2,
         kind: "galaxy",
+        tone: usePrimary ? "primary" : "secondary",
       });
     }
 
@@ -347,6 +693,7 @@ export class GenerativeBackground {
         alpha: 0.05 + rng() * 0.12,
         phase: rng() * Math.PI * 2,
         kind: "arc",
+        tone: "glow",
       });
     }
 
@@ -375,6 +722,7 @@ export class GenerativeBackground {
         alpha: 0.12 + rng() * 0.18,
         phase: rng() * Math.PI * 2,
         kind: "cloud",
+        tone: i % 2 === 0 ? "primary" : "secondary",
       });
     }
 
@@ -396,6 +744,7 @@ export class GenerativeBackground {
         alpha: 0.03 + rng() * 0.07,
         phase: rng() * Math.PI * 2,
         kind: "filament",
+        tone: "primary",
       });
     }
 
@@ -413,6 +762,7 @@ export class GenerativeBackground {
       alpha: 0.6 + rng() * 0.3,
       phase: rng() * Math.PI * 2,
       kind: "core",
+      tone: "glow",
     });
 
     return objects;
@@ -439,6 +789,7 @@ export class GenerativeBackground {
       alpha: 1.0,
       phase: rng() * Math.PI * 2,
       kind: "star",
+      tone: "glow",
     });
 
     // Background field stars
@@ -456,6 +807,7 @@ export class GenerativeBackground {
         alpha: 0.05 + rng() * 0.25,
         phase: rng() * Math.PI * 2,
         kind: "fieldstar",
+        tone: null,
       });
     }
 
@@ -475,7 +827,8 @@ export class GenerativeBackground {
         : Math.floor(30 + rng() * 30);
 
     for (let i = 0; i < count; i++) {
-      const [h, s, l] = rng() > 0.5 ? palette.primary : palette.secondary;
+      const tone = rng() > 0.5 ? "primary" : "secondary";
+      const [h, s, l] = palette[tone];
       objects.push({
         x: rng(),
         y: rng(),
@@ -488,6 +841,7 @@ export class GenerativeBackground {
         alpha: 0.04 + rng() * 0.18,
         phase: rng() * Math.PI * 2,
         kind: "galaxy",
+        tone,
       });
     }
 
@@ -507,33 +861,212 @@ export class GenerativeBackground {
         alpha: 0.25 + rng() * 0.35,
         phase: rng() * Math.PI * 2,
         kind: "galaxy",
+        tone: "primary",
+      });
+    }
+
+    return objects;
+  }
+
+  // A dispersed spectrum as the detector sees it: the target's trace across
+  // the frame, short wavelengths left, with its features lit up along it and
+  // fainter traces from other slits / sources above and below. A feature's x
+  // is its fraction of the way along the trace, placed when drawn.
+  private buildSpectrum(
+    rng: () => number,
+    style: InstrumentStyle,
+    range: SpectralRange,
+  ): SceneObject[] {
+    const objects: SceneObject[] = [];
+    const trace = (
+      y: number,
+      thickness: number,
+      alpha: number,
+    ): SceneObject => ({
+      x: TRACE_X,
+      y,
+      rx: TRACE_LENGTH,
+      ry: thickness,
+      angle: 0,
+      hue: 0,
+      sat: 0,
+      lit: 0,
+      alpha,
+      phase: rng() * Math.PI * 2,
+      kind: "trace",
+      tone: null,
+    });
+
+    const mainY = 0.42 + rng() * 0.16;
+    objects.push(trace(mainY, 0.018, 0.75));
+
+    const companions = style.minimal ? 1 : Math.floor(3 + rng() * 5);
+    for (let i = 0; i < companions; i++) {
+      const y = 0.08 + rng() * 0.84;
+      if (Math.abs(y - mainY) < 0.06) continue;
+      objects.push(trace(y, 0.004 + rng() * 0.008, 0.12 + rng() * 0.22));
+    }
+
+    const span = Math.log(range.toMicrons / range.fromMicrons);
+    for (const f of SPECTRAL_FEATURES) {
+      if (f.microns < range.fromMicrons || f.microns > range.toMicrons) {
+        continue;
+      }
+      const [h, s, l] = wavelengthColour(f.microns);
+      objects.push({
+        x: Math.log(f.microns / range.fromMicrons) / span,
+        y: mainY,
+        rx: 0.012 + rng() * 0.012,
+        ry: 0,
+        angle: 0,
+        hue: h,
+        sat: s,
+        lit: l + 20,
+        alpha: 0.5 + rng() * 0.4,
+        phase: rng() * Math.PI * 2,
+        kind: "feature",
+        tone: null,
+      });
+    }
+
+    return objects;
+  }
+
+  // The target itself, large and central: a planet with its bands and rings,
+  // or a moon in front of its (smaller, off-centre) planet. Comets and
+  // asteroids are a small grey body. Fixed colours, so no palette tones.
+  private buildPlanet(
+    rng: () => number,
+    style: InstrumentStyle,
+    body: SolarSystemBody | null,
+  ): SceneObject[] {
+    const objects: SceneObject[] = [];
+
+    const fieldCount = style.wideField ? 30 : 12;
+    for (let i = 0; i < fieldCount; i++) {
+      objects.push({
+        x: rng(),
+        y: rng(),
+        rx: 0.001 + rng() * 0.002,
+        ry: 0,
+        angle: 0,
+        hue: 200 + rng() * 60,
+        sat: 30 + rng() * 40,
+        lit: 70 + rng() * 25,
+        alpha: 0.04 + rng() * 0.15,
+        phase: rng() * Math.PI * 2,
+        kind: "fieldstar",
+        tone: null,
+      });
+    }
+
+    const phase = rng() * Math.PI * 2;
+    const disc = (
+      look: BodyLook,
+      x: number,
+      y: number,
+      radius: number,
+      alpha: number,
+    ): SceneObject[] => {
+      const part = (kind: string, rx: number, ry: number, a: number) => ({
+        x,
+        y,
+        rx,
+        ry,
+        angle: look.tilt,
+        hue: look.hue,
+        sat: look.sat,
+        lit: look.lit,
+        alpha: a,
+        phase,
+        kind,
+        tone: null,
       });
+      return [
+        ...look.rings.map(([inner, outer, a]) =>
+          part("ring-back", radius * outer, radius * inner, a * alpha),
+        ),
+        part("disc", radius, look.bands, alpha),
+        ...look.rings.map(([inner, outer, a]) =>
+          part("ring-front", radius * outer, radius * inner, a * alpha),
+        ),
+      ];
+    };
+
+    if (!body) {
+      objects.push(...disc(SMALL_BODY_LOOK, 0.5, 0.5, 0.05, 0.9));
+      return objects;
     }
 
+    const look = PLANET_LOOKS[body.planet];
+    if (body.moon) {
+      const side = rng() > 0.5 ? 1 : -1;
+      objects.push(
+        ...disc(look, 0.5 + side * 0.32, 0.3 + rng() * 0.4, 0.2, 0.45),
+      );
+      objects.push(...disc(SMALL_BODY_LOOK, 0.5, 0.5, 0.08, 1));
+      return objects;
+    }
+
+    objects.push(
+      ...disc(look, 0.5, 0.5, look.rings.length > 1 ? 0.14 : 0.18, 1),
+    );
+    // A few moons strung along the equator
+    const moons = look.rings.length > 0 ? Math.floor(2 + rng() * 3) : 0;
+    for (let i = 0; i < moons; i++) {
+      const d = (0.3 + rng() * 0.15) * (rng() > 0.5 ? 1 : -1);
+      objects.push({
+        x: 0.5 + d * Math.cos(look.tilt),
+        y: 0.5 + d * Math.sin(look.tilt),
+        rx: 0.003 + rng() * 0.003,
+        ry: 0,
+        angle: 0,
+        hue: look.hue,
+        sat: 10,
+        lit: 80,
+        alpha: 0.6 + rng() * 0.3,
+        phase,
+        kind: "fieldstar",
+        tone: null,
+      });
+    }
     return objects;
   }
 
   // ── Scene renderer ────────────────────────────────────────────────────────────
 
+  // palette: colours to draw in, when not the scene's own (mid-crossfade)
   private renderSceneToContext(
     octx: OffscreenCanvasRenderingContext2D,
     scene: SceneData,
     t: number,
+    palette: Palette = scene.palette,
   ): void {
     const w = octx.canvas.width;
     const h = octx.canvas.height;
     const minDim = Math.min(w, h);
     const tSec = t / 1000;
 
-    // Parallax: background shifts opposite to aim direction (deeper layer = less shift than stars)
-    const parallaxScale = 1 / this.sceneScale;
-    const parallaxOffX = (this.normalizedRA - 0.5) * 0.18 * parallaxScale;
-    const parallaxOffY = (this.normalizedDec - 0.5) * 0.12 * parallaxScale;
+    // Parallax: the scene sits where its observation projects, shifted less
+    // than the stars (deeper layer)
+    const anchor =
+      this.view && scene.sky
+        ? projectToScreen(this.view, scene.sky.ra, scene.sky.dec, w, h)
+        : null;
+    const parallaxOffX = anchor ? ((anchor.x - w / 2) / w) * SCENE_DEPTH : 0;
+    const parallaxOffY = anchor ? ((anchor.y - h / 2) / h) * SCENE_DEPTH : 0;
 
     octx.fillStyle = "#02020D";
     octx.fillRect(0, 0, w, h);
 
-    for (const obj of scene.objects) {
+    if (scene.image) {
+      this.drawWebbImage(octx, scene.image, parallaxOffX, parallaxOffY);
+      // Procedural layer becomes a faint glow over the real image
+      octx.globalAlpha = PROCEDURAL_OVER_IMAGE_ALPHA;
+    }
+
+    for (const built of scene.objects) {
+      const obj = retint(built, scene.palette, palette);
       const glowPulse = 0.7 + 0.3 * Math.sin(tSec * 0.04 + obj.phase);
       const driftSpeed = obj.kind === "arc" ? 0.028 : 0.02;
       const driftRadius = obj.kind === "arc" ? 5 : 3;
@@ -541,8 +1074,8 @@ export class GenerativeBackground {
       const driftY =
         Math.cos(tSec * (driftSpeed * 0.85) + obj.phase + 1.1) * driftRadius;
 
-      const px = ((obj.x + parallaxOffX + 1) % 1) * w + driftX;
-      const py = ((obj.y + parallaxOffY + 1) % 1) * h + driftY;
+      const px = ((obj.x + parallaxOffX + 2) % 1) * w + driftX;
+      const py = ((obj.y + parallaxOffY + 2) % 1) * h + driftY;
       const rx = obj.rx * minDim * this.sceneScale;
       const alpha = Math.min(1, obj.alpha * glowPulse);
 
@@ -641,6 +1174,62 @@ export class GenerativeBackground {
             alpha,
           );
           break;
+        // Spectra stay in one piece — no wrap-around like the other objects
+        case "trace":
+          if (scene.spectrum) {
+            this.drawSpectrumTrace(
+              octx,
+              (obj.x + parallaxOffX) * w + driftX,
+              (obj.y + parallaxOffY) * h + driftY,
+              obj.rx * w * this.sceneScale,
+              Math.max(1, obj.ry * minDim * this.sceneScale),
+              scene.spectrum,
+              alpha,
+            );
+          }
+          break;
+        // Planets, like spectra, stay whole and centred
+        case "ring-back":
+        case "ring-front":
+          this.drawPlanetRing(
+            octx,
+            (obj.x + parallaxOffX) * w + driftX,
+            (obj.y + parallaxOffY) * h + driftY,
+            obj.ry * minDim * this.sceneScale,
+            rx,
+            obj.angle,
+            obj,
+            alpha,
+            obj.kind === "ring-front",
+          );
+          break;
+        case "disc":
+          this.drawPlanetDisc(
+            octx,
+            (obj.x + parallaxOffX) * w + driftX,
+            (obj.y + parallaxOffY) * h + driftY,
+            rx,
+            obj.angle,
+            obj,
+            obj.ry,
+            alpha,
+          );
+          break;
+        // On the main trace, which starts at TRACE_X and zooms from there
+        case "feature":
+          this.drawFieldStar(
+            octx,
+            (TRACE_X + parallaxOffX) * w +
+              obj.x * TRACE_LENGTH * w * this.sceneScale +
+              driftX,
+            (obj.y + parallaxOffY) * h + driftY,
+            rx,
+            obj.hue,
+            obj.sat,
+            obj.lit,
+            alpha,
+          );
+          break;
       }
 
       // Instrument over-layer: drawn after the object but sized and colored to match scene
@@ -661,8 +1250,10 @@ export class GenerativeBackground {
       }
     }
 
+    octx.globalAlpha = 1;
+
     // Scene-wide diffuse haze
-    const [ph, ps, pl] = scene.palette.primary;
+    const [ph, ps, pl] = palette.primary;
     const hazeGrad = octx.createRadialGradient(
       w * 0.5,
       h * 0.5,
@@ -677,6 +1268,38 @@ export class GenerativeBackground {
     octx.fillRect(0, 0, w, h);
   }
 
+  // Cover-fit, magnified by zoom and panned by the sky anchor plus the aim
+  // reticle, never past the image edges
+  private drawWebbImage(
+    octx: OffscreenCanvasRenderingContext2D,
+    image: OffscreenCanvas,
+    offX: number,
+    offY: number,
+  ): void {
+    const w = octx.canvas.width;
+    const h = octx.canvas.height;
+    const cover = Math.max(w / image.width, h / image.height);
+    const s = cover * (1 + (this.sceneScale - 0.5) * IMAGE_ZOOM_PER_UNIT);
+    const dw = image.width * s;
+    const dh = image.height * s;
+    const spareX = (dw - w) / 2;
+    const spareY = (dh - h) / 2;
+    const panX = Math.max(
+      -spareX,
+      Math.min(spareX, offX * w + this.aimPanX * spareX),
+    );
+    const panY = Math.max(
+      -spareY,
+      Math.min(spareY, offY * h + this.aimPanY * spareY),
+    );
+    const x = (w - dw) / 2 + panX;
+    const y = (h - dh) / 2 + panY;
+    this.imageRects.set(image, { x, y, w: dw, h: dh, canvasW: w, canvasH: h });
+    octx.globalAlpha = IMAGE_ALPHA;
+    octx.drawImage(image, x, y, dw, dh);
+    octx.globalAlpha = 1;
+  }
+
   // ── Drawing primitives ────────────────────────────────────────────────────────
 
   private drawGalaxy(
@@ -949,6 +1572,120 @@ export class GenerativeBackground {
     octx.fill();
   }
 
+  // Lit from the upper left, with cloud bands along the tilted equator and
+  // a darkened limb
+  private drawPlanetDisc(
+    octx: OffscreenCanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    r: number,
+    tilt: number,
+    colour: { hue: number; sat: number; lit: number },
+    bands: number,
+    alpha: number,
+  ): void {
+    const { hue, sat, lit } = colour;
+    octx.save();
+    octx.beginPath();
+    octx.arc(cx, cy, r, 0, Math.PI * 2);
+    octx.clip();
+
+    const base = octx.createRadialGradient(
+      cx - r * 0.35,
+      cy - r * 0.35,
+      r * 0.1,
+      cx,
+      cy,
+      r,
+    );
+    base.addColorStop(0, hsl(hue, sat, Math.min(95, lit + 15), alpha));
+    base.addColorStop(1, hsl(hue, sat, lit * 0.6, alpha));
+    octx.fillStyle = base;
+    octx.fillRect(cx - r, cy - r, r * 2, r * 2);
+
+    if (bands > 0) {
+      octx.save();
+      octx.translate(cx, cy);
+      octx.rotate(tilt);
+      const pitch = (r * 2) / bands;
+      for (let i = 0; i < bands; i++) {
+        const dark = i % 2 === 0;
+        octx.fillStyle = hsl(
+          hue + (dark ? -8 : 6),
+          sat * 0.9,
+          lit * (dark ? 0.72 : 1.1),
+          alpha * 0.35,
+        );
+        octx.fillRect(-r, -r + pitch * i + pitch * 0.2, r * 2, pitch * 0.6);
+      }
+      octx.restore();
+    }
+
+    const limb = octx.createRadialGradient(cx, cy, r * 0.55, cx, cy, r);
+    limb.addColorStop(0, "rgba(0,0,0,0)");
+    limb.addColorStop(1, `rgba(0,0,0,${(0.55 * alpha).toFixed(3)})`);
+    octx.fillStyle = limb;
+    octx.fillRect(cx - r, cy - r, r * 2, r * 2);
+    octx.restore();
+  }
+
+  // One annulus of a ring system, seen at an angle. The back half is drawn
+  // before the disc and the front half after, so the planet sits inside it.
+  private drawPlanetRing(
+    octx: OffscreenCanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    inner: number,
+    outer: number,
+    tilt: number,
+    colour: { hue: number; sat: number; lit: number },
+    alpha: number,
+    front: boolean,
+  ): void {
+    const [start, end] = front ? [0, Math.PI] : [Math.PI, Math.PI * 2];
+    octx.save();
+    octx.translate(cx, cy);
+    octx.rotate(tilt);
+    octx.scale(1, RING_ASPECT);
+    octx.beginPath();
+    octx.arc(0, 0, outer, start, end);
+    octx.arc(0, 0, inner, end, start, true);
+    octx.closePath();
+    octx.fillStyle = hsl(colour.hue, colour.sat * 0.8, colour.lit + 10, alpha);
+    octx.fill();
+    octx.restore();
+  }
+
+  // Colour runs with wavelength along the trace, fading in and out at the
+  // ends of the disperser's range, over a soft glow of the same colours
+  private drawSpectrumTrace(
+    octx: OffscreenCanvasRenderingContext2D,
+    x0: number,
+    cy: number,
+    len: number,
+    thickness: number,
+    range: SpectralRange,
+    alpha: number,
+  ): void {
+    const stops = 8;
+    const colours = (a: number) => {
+      const grad = octx.createLinearGradient(x0, 0, x0 + len, 0);
+      for (let i = 0; i <= stops; i++) {
+        const t = i / stops;
+        const wl =
+          range.fromMicrons * Math.pow(range.toMicrons / range.fromMicrons, t);
+        const [hh, ss, ll] = wavelengthColour(wl);
+        const edge = Math.min(1, t * 6, (1 - t) * 6);
+        grad.addColorStop(t, hsl(hh, ss, ll + 10, a * edge));
+      }
+      return grad;
+    };
+    octx.fillStyle = colours(alpha * 0.2);
+    octx.fillRect(x0, cy - thickness * 2.5, len, thickness * 5);
+    octx.fillStyle = colours(alpha);
+    octx.fillRect(x0, cy - thickness / 2, len, thickness);
+  }
+
   private drawSpectraStreak(
     octx: OffscreenCanvasRenderingContext2D,
     cx: number,
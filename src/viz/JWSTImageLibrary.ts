@@ -87,15 +87,21 @@ const LIBRARY: JWSTImageEntry[] = [
   },
 ]
 
+/** A library image and the credit line it must be shown with. */
+export interface JWSTImage {
+  url: string
+  credit: string
+}
+
 /**
  * Find a JWST image URL for a given target name.
  * Returns null if no match is found.
  */
-export function findJWSTImage(targetName: string): string | null {
+export function findJWSTImage(targetName: string): JWSTImage | null {
   const normalized = targetName.toLowerCase().trim()
   for (const entry of LIBRARY) {
     for (const kw of entry.keywords) {
-      if (normalized.includes(kw)) return entry.url
+      if (normalized.includes(kw)) return { url: entry.url, credit: entry.credit }
     }
   }
   return null
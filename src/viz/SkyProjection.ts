@@ -0,0 +1,155 @@
+// Equatorial sky projection shared by SpaceRenderer, GenerativeBackground
+// and the aim / nearest-observation logic in main.ts, so what you see, what
+// you hear and the RA/Dec shown in InfoOverlay all agree.
+//
+// The view is centred on the current pointing; zoom sets the field of view.
+// Sky-chart orientation: north up, east (increasing RA) to the left.
+//
+//   gnomonic     — tangent-plane projection, what a camera sees; great
+//                  circles are straight lines. Only the hemisphere facing
+//                  the centre is visible.
+//   hammer-aitoff — equal-area whole-sky projection; zoomed out it shows the
+//                  full celestial sphere as an ellipse.
+
+export type ProjectionKind = "gnomonic" | "hammer-aitoff";
+
+export const PROJECTION_KINDS: ProjectionKind[] = ["gnomonic", "hammer-aitoff"];
+
+// Short labels for the projection toggle
+export const PROJECTION_LABELS: Record<ProjectionKind, string> = {
+  gnomonic: "TAN",
+  "hammer-aitoff": "AITOFF",
+};
+
+export interface SkyView {
+  projection: ProjectionKind;
+  ra: number; // centre, degrees
+  dec: number;
+  zoom: number; // 0.5–3, as in main.ts
+}
+
+const DEG = Math.PI / 180;
+
+// Horizontal field of view across the viewport width, in degrees
+export function fieldOfView(view: SkyView): number {
+  return view.projection === "gnomonic"
+    ? Math.min(150, 75 / view.zoom) // 150° zoomed out → 25° at 3×
+    : Math.min(360, 180 / view.zoom); // whole sky zoomed out → 60° at 3×
+}
+
+// Pixels per projected unit. Both projections are ≈1 unit per radian near
+// the centre, so the same fov reads the same at the middle of the screen.
+function pixelScale(view: SkyView, width: number): number {
+  const halfFov = (fieldOfView(view) / 2) * DEG;
+  const halfUnits =
+    view.projection === "gnomonic" ? Math.tan(halfFov) : halfFov;
+  return width / 2 / halfUnits;
+}
+
+// Rotate a sky direction into the view frame: centre → +x, north → +z
+function toViewFrame(
+  view: SkyView,
+  ra: number,
+  dec: number,
+): [number, number, number] {
+  const a = ra * DEG;
+  const d = dec * DEG;
+  const a0 = view.ra * DEG;
+  const d0 = view.dec * DEG;
+  const x = Math.cos(d) * Math.cos(a);
+  const y = Math.cos(d) * Math.sin(a);
+  const z = Math.sin(d);
+  const x1 = x * Math.cos(a0) + y * Math.sin(a0);
+  const y1 = -x * Math.sin(a0) + y * Math.cos(a0);
+  return [
+    x1 * Math.cos(d0) + z * Math.sin(d0),
+    y1,
+    -x1 * Math.sin(d0) + z * Math.cos(d0),
+  ];
+}
+
+function fromViewFrame(
+  view: SkyView,
+  x2: number,
+  y2: number,
+  z2: number,
+): { ra: number; dec: number } {
+  const a0 = view.ra * DEG;
+  const d0 = view.dec * DEG;
+  const x1 = x2 * Math.cos(d0) - z2 * Math.sin(d0);
+  const z = x2 * Math.sin(d0) + z2 * Math.cos(d0);
+  const x = x1 * Math.cos(a0) - y2 * Math.sin(a0);
+  const y = x1 * Math.sin(a0) + y2 * Math.cos(a0);
+  const ra = (Math.atan2(y, x) / DEG + 360) % 360;
+  const dec = Math.asin(Math.max(-1, Math.min(1, z))) / DEG;
+  return { ra, dec };
+}
+
+// Screen pixel position, or null where the point isn't on the projection
+export function projectToScreen(
+  view: SkyView,
+  ra: number,
+  dec: number,
+  width: number,
+  height: number,
+): { x: number; y: number } | null {
+  const [x2, y2, z2] = toViewFrame(view, ra, dec);
+  let u: number;
+  let v: number;
+  if (view.projection === "gnomonic") {
+    if (x2 <= 1e-6) return null;
+    u = y2 / x2;
+    v = z2 / x2;
+  } else {
+    const lon = Math.atan2(y2, x2);
+    const lat = Math.asin(Math.max(-1, Math.min(1, z2)));
+    const k = Math.sqrt(1 + Math.cos(lat) * Math.cos(lon / 2));
+    u = (2 * Math.SQRT2 * Math.cos(lat) * Math.sin(lon / 2)) / k;
+    v = (Math.SQRT2 * Math.sin(lat)) / k;
+  }
+  const scale = pixelScale(view, width);
+  return { x: width / 2 - u * scale, y: height / 2 - v * scale };
+}
+
+// Sky position under a screen pixel, or null off the edge of the projection
+export function unprojectFromScreen(
+  view: SkyView,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): { ra: number; dec: number } | null {
+  const scale = pixelScale(view, width);
+  const u = (width / 2 - x) / scale;
+  const v = (height / 2 - y) / scale;
+  if (view.projection === "gnomonic") {
+    const n = Math.hypot(1, u, v);
+    return fromViewFrame(view, 1 / n, u / n, v / n);
+  }
+  // Outside the whole-sky ellipse
+  if ((u * u) / 8 + (v * v) / 2 > 1) return null;
+  const zz = Math.sqrt(1 - (u / 4) ** 2 - (v / 2) ** 2);
+  const lon = 2 * Math.atan2(zz * u, 2 * (2 * zz * zz - 1));
+  const lat = Math.asin(Math.max(-1, Math.min(1, zz * v)));
+  return fromViewFrame(
+    view,
+    Math.cos(lat) * Math.cos(lon),
+    Math.cos(lat) * Math.sin(lon),
+    Math.sin(lat),
+  );
+}
+
+// Great-circle separation in degrees
+export function angularSeparation(
+  ra1: number,
+  dec1: number,
+  ra2: number,
+  dec2: number,
+): number {
+  const d1 = dec1 * DEG;
+  const d2 = dec2 * DEG;
+  const cosSep =
+    Math.sin(d1) * Math.sin(d2) +
+    Math.cos(d1) * Math.cos(d2) * Math.cos((ra1 - ra2) * DEG);
+  return Math.acos(Math.max(-1, Math.min(1, cosSep))) / DEG;
+}
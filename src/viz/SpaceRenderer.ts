@@ -1,26 +1,51 @@
 import type { ObservationData } from "../data/JWSTFetcher";
-
-// Deterministic pseudo-random number generator (mulberry32)
-function mulberry32(seed: number) {
-  return function () {
-    seed |= 0;
-    seed = (seed + 0x6d2b79f5) | 0;
-    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
+import { fieldOfView, projectToScreen, type SkyView } from "./SkyProjection";
+import { bvToRgb, loadBrightStars } from "./StarCatalogue";
+import { mulberry32 } from "../audio/SeededRandom";
 
 interface Star {
-  x: number;
-  y: number;
+  ra: number;
+  dec: number;
   brightness: number;
   size: number;
   twinkleSeed: number;
+  rgb: string; // "r,g,b"
 }
 
 const RING_RADII = [0.18, 0.3, 0.44, 0.6];
 
+// Random field, used until (or if) the bright-star catalogue loads
+const RANDOM_STAR_COUNT = 12000;
+const RANDOM_STAR_RGB = "200,220,255";
+// Roughly what the old screen-space field drew — zoomed out, the faintest
+// stars are dropped to stay near this budget. Stars are kept brightest first.
+const MAX_DRAWN_STARS = 2500;
+const SKY_SQ_DEG = 41253;
+
+// Observation markers
+const MARKER_RADIUS = 5;
+const MARKER_HIT_RADIUS = 14;
+const MIN_MARKER_ALPHA = 0.25;
+
+interface DrawnMarker {
+  obs: ObservationData;
+  x: number;
+  y: number;
+}
+
+function instrumentHue(instrument: string): number {
+  const l = instrument.toLowerCase();
+  if (l.includes("nircam")) return 195;
+  if (l.includes("nirspec")) return 40;
+  if (l.includes("niriss")) return 150;
+  if (l.includes("miri")) return 12;
+  return 270; // FGS / unknown
+}
+
+function observedTime(obs: ObservationData): number {
+  return (obs.observedAt ?? obs.timestamp).getTime();
+}
+
 export class SpaceRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
@@ -32,6 +57,17 @@ export class SpaceRenderer {
   private normalizedDec = 0.51;
   private rms = 0;
   private zoomLevel = 1.0;
+  private view: SkyView = {
+    projection: "gnomonic",
+    ra: 151.2,
+    dec: 1.8,
+    zoom: 1,
+  };
+
+  // Cached observations plotted at their RA/Dec, and the one aim mode picked
+  private markers: ObservationData[] = [];
+  private highlighted: ObservationData | null = null;
+  private drawnMarkers: DrawnMarker[] = [];
 
   // Aim mode: normalized screen coords 0–1, null when inactive
   private aimX: number | null = null;
@@ -43,6 +79,7 @@ export class SpaceRenderer {
     this.resize();
     window.addEventListener("resize", () => this.resize());
     this.initStars();
+    this.loadCatalogue();
   }
 
   private resize(): void {
@@ -52,13 +89,36 @@ export class SpaceRenderer {
 
   private initStars(): void {
     const rng = mulberry32(0xdeadbeef);
-    this.stars = Array.from({ length: 2000 }, () => ({
-      x: rng(),
-      y: rng(),
+    // Uniform over the celestial sphere
+    this.stars = Array.from({ length: RANDOM_STAR_COUNT }, () => ({
+      ra: rng() * 360,
+      dec: (Math.asin(2 * rng() - 1) * 180) / Math.PI,
       brightness: Math.pow(rng(), 2.5),
       size: 0.5 + rng() * 2,
       twinkleSeed: rng() * Math.PI * 2,
-    }));
+      rgb: RANDOM_STAR_RGB,
+    })).sort((a, b) => b.brightness - a.brightness);
+  }
+
+  // Swap in the real sky; the random field stays if the asset won't load
+  private async loadCatalogue(): Promise<void> {
+    try {
+      const catalogue = await loadBrightStars();
+      this.stars = catalogue.map((c, i) => {
+        // 0 at the naked-eye limit (V 6), 1 at Sirius
+        const bright = Math.max(0, Math.min(1, (6 - c.mag) / 7.5));
+        return {
+          ra: c.ra,
+          dec: c.dec,
+          brightness: 0.3 + 0.7 * bright,
+          size: 0.5 + 2.5 * bright,
+          twinkleSeed: (i * 2.39996) % (Math.PI * 2),
+          rgb: bvToRgb(c.bv).join(","),
+        };
+      });
+    } catch (err) {
+      console.warn("Star catalogue unavailable, using random field", err);
+    }
   }
 
   setObservation(obs: ObservationData): void {
@@ -72,6 +132,33 @@ export class SpaceRenderer {
     this.normalizedDec = (dec + 90) / 180;
   }
 
+  // Projection centre, zoom and kind — shared with main.ts aim mapping
+  setView(view: SkyView): void {
+    this.view = view;
+  }
+
+  setMarkers(observations: ObservationData[]): void {
+    this.markers = observations;
+  }
+
+  setHighlightedObservation(obs: ObservationData | null): void {
+    this.highlighted = obs;
+  }
+
+  // Marker under a screen point (CSS px), nearest first
+  markerAt(x: number, y: number): ObservationData | null {
+    let best: ObservationData | null = null;
+    let bestDist = MARKER_HIT_RADIUS;
+    for (const m of this.drawnMarkers) {
+      const d = Math.hypot(m.x - x, m.y - y);
+      if (d <= bestDist) {
+        bestDist = d;
+        best = m.obs;
+      }
+    }
+    return best;
+  }
+
   // Set the screen-space reticle position (null = hidden)
   setAimPoint(x: number | null, y: number | null): void {
     this.aimX = x;
@@ -111,23 +198,28 @@ export class SpaceRenderer {
     const cy = h / 2;
     const scale = Math.min(w, h);
 
-    // Parallax scale: zoomed in = looking at a smaller sky patch = less shift per unit RA/Dec
-    const parallaxScale = 1 / this.zoomLevel;
-
     // --- Star field ---
-    // Parallax: much larger offset so panning feels like flying through space
-    const parallaxX = (this.normalizedRA - 0.5) * 0.3 * parallaxScale;
-    const parallaxY = (this.normalizedDec - 0.5) * 0.2 * parallaxScale;
-
-    for (const s of this.stars) {
+    // Stars are sorted brightest first; draw only as many as keep about
+    // MAX_DRAWN_STARS in the visible patch of sky.
+    const fov = fieldOfView(this.view);
+    const visibleFrac = Math.min(1, (fov * fov * (h / w)) / SKY_SQ_DEG);
+    const limit = Math.min(
+      this.stars.length,
+      Math.ceil(MAX_DRAWN_STARS / visibleFrac),
+    );
+
+    for (let i = 0; i < limit; i++) {
+      const s = this.stars[i];
+      const p = projectToScreen(this.view, s.ra, s.dec, w, h);
+      if (!p || p.x < -4 || p.x > w + 4 || p.y < -4 || p.y > h + 4) continue;
       const twinkle = 0.7 + 0.3 * Math.sin(t * 1.5 + s.twinkleSeed);
-      const px = ((s.x + parallaxX + 2) % 1) * w;
-      const py = ((s.y + parallaxY + 2) % 1) * h;
+      const px = p.x;
+      const py = p.y;
       const alpha = s.brightness * twinkle;
       // Stars appear larger when zoomed in
       const size = s.size * this.zoomLevel * (0.8 + 0.2 * twinkle);
 
-      ctx.fillStyle = `rgba(200,220,255,${alpha})`;
+      ctx.fillStyle = `rgba(${s.rgb},${alpha})`;
       ctx.beginPath();
       ctx.arc(px, py, size, 0, Math.PI * 2);
       ctx.fill();
@@ -172,6 +264,8 @@ export class SpaceRenderer {
 
     ctx.restore();
 
+    this.renderMarkers(w, h, t);
+
     // --- Aim reticle ---
     if (this.aimX !== null && this.aimY !== null) {
       const rx = this.aimX * w;
@@ -206,4 +300,73 @@ export class SpaceRenderer {
       ctx.restore();
     }
   }
+
+  // --- Observation markers ---
+  // Instrument-coloured rings, oldest dimmest (relative to the span of what's
+  // cached, so a replayed week fades the same way as a live afternoon).
+  private renderMarkers(w: number, h: number, t: number): void {
+    const { ctx } = this;
+    this.drawnMarkers = [];
+    if (this.markers.length === 0) return;
+
+    const times = this.markers.map(observedTime);
+    const newest = Math.max(...times);
+    const span = Math.max(1, newest - Math.min(...times));
+
+    // Newest first so their labels win when they collide; highlight on top
+    const order = this.markers
+      .map((obs, i) => ({ obs, age: (newest - times[i]) / span }))
+      .sort((a, b) => a.age - b.age);
+    const hi = order.findIndex((m) => m.obs === this.highlighted);
+    if (hi > 0) order.unshift(...order.splice(hi, 1));
+
+    const labelBoxes: { x0: number; y0: number; x1: number; y1: number }[] = [];
+    ctx.save();
+    ctx.font = '9px "Courier New", Courier, monospace';
+    ctx.textBaseline = "middle";
+
+    for (const { obs, age } of order) {
+      if (obs.unplaced) continue; // nowhere on the sky to mark
+      const p = projectToScreen(this.view, obs.ra, obs.dec, w, h);
+      if (!p || p.x < 0 || p.x > w || p.y < 0 || p.y > h) continue;
+      this.drawnMarkers.push({ obs, x: p.x, y: p.y });
+
+      const isHighlighted = obs === this.highlighted;
+      const hue = instrumentHue(obs.instrument);
+      const alpha = isHighlighted
+        ? 1
+        : MIN_MARKER_ALPHA + (1 - MIN_MARKER_ALPHA) * (1 - age);
+      const r = isHighlighted
+        ? MARKER_RADIUS + 2 + Math.sin(t * 4) * 1.5
+        : MARKER_RADIUS;
+
+      ctx.strokeStyle = `hsla(${hue},85%,65%,${alpha})`;
+      ctx.lineWidth = isHighlighted ? 1.5 : 1;
+      ctx.shadowColor = `hsl(${hue},85%,60%)`;
+      ctx.shadowBlur = isHighlighted ? 10 : 0;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, r, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.fillStyle = `hsla(${hue},85%,75%,${alpha})`;
+      ctx.fillRect(p.x - 0.75, p.y - 0.75, 1.5, 1.5);
+
+      const label = obs.targetName.toUpperCase();
+      const lx = p.x + r + 5;
+      const box = {
+        x0: lx,
+        y0: p.y - 6,
+        x1: lx + ctx.measureText(label).width,
+        y1: p.y + 6,
+      };
+      const overlaps = labelBoxes.some(
+        (b) => box.x0 < b.x1 && box.x1 > b.x0 && box.y0 < b.y1 && box.y1 > b.y0,
+      );
+      if (overlaps && !isHighlighted) continue;
+      labelBoxes.push(box);
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = `hsla(${hue},60%,80%,${alpha * 0.85})`;
+      ctx.fillText(label, lx, p.y);
+    }
+    ctx.restore();
+  }
 }
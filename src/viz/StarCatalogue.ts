@@ -0,0 +1,56 @@
+// Bright-star catalogue — every star to naked-eye magnitude 6.0 (Hipparcos,
+// ~5000 stars), bundled as public/data/bright-stars.json so the sky behind a
+// target is the real sky. Rows are [ra°, dec°, V mag, B–V], brightest first.
+
+export interface CatalogueStar {
+  ra: number;
+  dec: number;
+  mag: number;
+  bv: number;
+}
+
+const CATALOGUE_URL = "/data/bright-stars.json";
+
+interface CatalogueFile {
+  stars: [number, number, number, number][];
+}
+
+export async function loadBrightStars(): Promise<CatalogueStar[]> {
+  const res = await fetch(CATALOGUE_URL);
+  if (!res.ok) throw new Error(`Star catalogue: ${res.status}`);
+  const json = (await res.json()) as CatalogueFile;
+  if (!Array.isArray(json.stars) || json.stars.length === 0) {
+    throw new Error("Star catalogue: no stars");
+  }
+  return json.stars.map(([ra, dec, mag, bv]) => ({ ra, dec, mag, bv }));
+}
+
+// B–V colour index → display RGB, interpolated through typical O…M star
+// colours (hot blue-white at −0.3, Sun-like at 0.65, cool orange past 1.4)
+const BV_COLOURS: [number, [number, number, number]][] = [
+  [-0.33, [155, 176, 255]],
+  [-0.17, [170, 191, 255]],
+  [0.0, [202, 215, 255]],
+  [0.3, [248, 247, 255]],
+  [0.58, [255, 244, 234]],
+  [0.81, [255, 222, 180]],
+  [1.4, [255, 196, 120]],
+  [2.0, [255, 165, 90]],
+];
+
+export function bvToRgb(bv: number): [number, number, number] {
+  if (bv <= BV_COLOURS[0][0]) return BV_COLOURS[0][1];
+  for (let i = 1; i < BV_COLOURS.length; i++) {
+    const [b1, c1] = BV_COLOURS[i];
+    if (bv <= b1) {
+      const [b0, c0] = BV_COLOURS[i - 1];
+      const f = (bv - b0) / (b1 - b0);
+      return [
+        Math.round(c0[0] + (c1[0] - c0[0]) * f),
+        Math.round(c0[1] + (c1[1] - c0[1]) * f),
+        Math.round(c0[2] + (c1[2] - c0[2]) * f),
+      ];
+    }
+  }
+  return BV_COLOURS[BV_COLOURS.length - 1][1];
+}
@@ -1,100 +1,70 @@
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
 import { defineConfig, type Plugin } from "vite";
+import {
+  createJwstProxy,
+  nodeHandler,
+  nodeStreamHandler,
+} from "./api/_lib/proxy";
 
-const MAST_URL = "https://mast.stsci.edu/search/jwst/api/v0.1/search";
-const CACHE_TTL_MS = 5 * 60 * 1000;
-const MAST_BODY = JSON.stringify({
-  limit: 10,
-  sort_by: ["date_obs"],
-  sort_desc: [true],
-  select_cols: [
-    "targprop",
-    "targ_ra",
-    "targ_dec",
-    "instrume",
-    "opticalElements",
-    "targtype",
-    "exp_type",
-  ],
-  skip_count: true,
-});
-const FALLBACK_BODY = JSON.stringify({
-  results: [
-    {
-      targprop: "SMACS 0723",
-      targ_ra: 110.84,
-      targ_dec: -73.45,
-      instrume: "NIRCam",
-      opticalElements: "F277W",
-      targtype: "galaxy cluster",
-      exp_type: "SCIENCE",
-    },
-  ],
-});
-
-let cachedBody: string | null = null;
-let cacheTime = 0;
-
+// Same proxy as the Vercel functions (api/_lib/proxy.ts). Storage is the
+// filesystem in .data/ (or JWST_DATA_DIR), so the cache and history outlive
+// dev server restarts.
 function devJwstApiPlugin(): Plugin {
   return {
     name: "dev-jwst-api",
     apply: "serve",
     configureServer(server) {
-      server.middlewares.use("/api/jwst", async (req, res) => {
-        if (req.method !== "GET") {
-          res.statusCode = 405;
-          res.setHeader("Content-Type", "application/json");
-          res.end(JSON.stringify({ error: "Method not allowed" }));
-          return;
-        }
-
-        res.setHeader("Content-Type", "application/json");
-        res.setHeader("Cache-Control", "public, max-age=300");
-
-        if (cachedBody && Date.now() - cacheTime < CACHE_TTL_MS) {
-          res.setHeader("X-Cache", "HIT");
-          res.end(cachedBody);
-          return;
-        }
+      const proxy = createJwstProxy();
+      const handler = nodeHandler(proxy);
+      const streamHandler = nodeStreamHandler(proxy);
+      // Before /api/v2/observations, which would otherwise match it as a prefix
+      server.middlewares.use("/api/v2/observations/stream", (req, res) => {
+        void streamHandler(req, res);
+      });
+      for (const route of ["/api/jwst", "/api/v2/observations"]) {
+        server.middlewares.use(route, (req, res) => {
+          void handler(req, res);
+        });
+      }
+    },
+  };
+}
 
-        try {
-          const upstream = await fetch(MAST_URL, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-            },
-            body: MAST_BODY,
-            signal: AbortSignal.timeout(25_000),
-          });
-          const body = await upstream.text();
-          if (upstream.ok) {
-            cachedBody = body;
-            cacheTime = Date.now();
-            res.statusCode = 200;
-            res.setHeader("X-Cache", "MISS");
-            res.end(body);
-            return;
-          }
-          if (cachedBody) {
-            res.statusCode = 200;
-            res.setHeader("X-Cache", "STALE");
-            res.end(cachedBody);
-            return;
-          }
-          res.statusCode = 200;
-          res.setHeader("X-Cache", "FALLBACK");
-          res.end(FALLBACK_BODY);
-        } catch (err) {
-          if (cachedBody) {
-            res.statusCode = 200;
-            res.setHeader("X-Cache", "STALE");
-            res.end(cachedBody);
-            return;
-          }
-          res.statusCode = 200;
-          res.setHeader("X-Cache", "FALLBACK");
-          res.end(FALLBACK_BODY);
-        }
+// Writes sw-manifest.js, which public/sw.js imports: the URLs to precache —
+// everything the build emits (index.html as /) and everything in public/ —
+// and a version hashed from their contents. Browsers compare imported
+// scripts when checking for an update, so any change installs a new worker.
+function serviceWorkerManifestPlugin(): Plugin {
+  let publicDir = "";
+  return {
+    name: "sw-manifest",
+    apply: "build",
+    // After Vite's own HTML plugin has emitted index.html
+    enforce: "post",
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash("sha256");
+      const urls: string[] = [];
+      for (const [fileName, output] of Object.entries(bundle)) {
+        urls.push(fileName === "index.html" ? "/" : `/${fileName}`);
+        hash.update(output.type === "chunk" ? output.code : output.source);
+      }
+      const publicFiles = readdirSync(publicDir, { recursive: true })
+        .map(String)
+        .filter((f) => f !== "sw.js" && statSync(join(publicDir, f)).isFile());
+      for (const file of publicFiles) {
+        urls.push(`/${file}`);
+        hash.update(file).update(readFileSync(join(publicDir, file)));
+      }
+      const precache = { version: hash.digest("hex").slice(0, 12), urls };
+      this.emitFile({
+        type: "asset",
+        fileName: "sw-manifest.js",
+        source: `self.__WEBBWAVE_PRECACHE__ = ${JSON.stringify(precache)};\n`,
       });
     },
   };
@@ -106,5 +76,5 @@ export default defineConfig({
     outDir: "dist",
     target: "es2020",
   },
-  plugins: [devJwstApiPlugin()],
+  plugins: [devJwstApiPlugin(), serviceWorkerManifestPlugin()],
 });
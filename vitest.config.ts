@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Separate from vite.config.ts so tests don't start its dev API plugin, which
+// opens a .data/ store on startup
+export default defineConfig({
+  test: {
+    include: ["api/**/*.test.ts", "src/**/*.test.ts"],
+  },
+});